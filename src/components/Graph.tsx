@@ -10,25 +10,76 @@ import { GraphNode as GraphNodeComponent } from './graph-node/GraphNode';
 import { GraphControls } from './graph/GraphControls';
 import { GraphStats } from './graph/GraphStats';
 import { NodeDetailsPanel } from './graph/NodeDetailsPanel';
+import { EdgeDetailsPanel } from './graph/EdgeDetailsPanel';
+import { PathFinderPanel, PathFinderMode } from './graph/PathFinderPanel';
+import { CouplingReportPanel } from './graph/CouplingReportPanel';
+import { RuleViolationsPanel } from './graph/RuleViolationsPanel';
+import { DeadCodePanel } from './graph/DeadCodePanel';
 import { GraphEdges } from './graph/GraphEdges';
 import { GraphDefs } from './graph/GraphDefs';
 
+import { LayoutProgress } from './graph/LayoutProgress';
+import { GraphClusters } from './graph/GraphClusters';
+
 // Import layout utilities
-import {
-  createSpiralLayout,
-  createDonutLayout,
-  createCircularLayout,
-  createForceLayout,
-  getInitialZoomScale
-} from '../utils/graphLayout';
+import { getInitialZoomScale, placeNodesIncrementally, NODE_WIDTH, NODE_HEIGHT } from '../utils/graphLayout';
+import { LayoutName, LayoutOptions, LayoutAlgorithm } from '../utils/layoutEngine';
+import { computeClusterBounds } from '../utils/graph/clusterLayout';
+import { EdgeStyle } from '../utils/graph/edgeRouting';
+import { EdgeStyleMap, EdgeWeightScale, DEFAULT_EDGE_STYLES } from '../utils/graph/edgeStyles';
+import { buildBundlingHierarchy } from '../utils/graph/edgeBundling';
+import { assignEdgeIds, getEdgeId } from '../utils/graph/edgeUtils';
+import { traverseEdges, DependencyExploration } from '../utils/graph/traversal';
+import { findCycles, getCycleColor, DependencyCycle } from '../utils/graph/cycles';
+import { findShortestPath, findSimplePaths } from '../utils/graph/pathFinding';
+import { normalizeMetric, getMetricNodeScale, MetricName } from '../utils/graph/metrics';
+import { getNodeMetricColor } from '../utils/graph/nodeStyles';
+import { computeCouplingReport, ModuleCoupling } from '../utils/graph/coupling';
+import { evaluateArchitectureRules, ArchitectureRule, RuleViolation, NodeSelector } from '../utils/graph/architectureRules';
+import { findDeadCode } from '../utils/graph/deadCode';
+import { useLayoutWorker } from '../hooks/useLayoutWorker';
+import { useGraphMetrics } from '../hooks/useGraphMetrics';
+import { usePositionAnimation, EasingName, EasingFunction } from '../hooks/usePositionAnimation';
+import { useReducedMotion } from '../hooks/useReducedMotion';
 
 interface GraphProps {
   data: GraphData;
   width?: number;
   height?: number;
-  autoLayout?: 'circular' | 'force' | 'tree' | 'spiral' | 'donut';
+  autoLayout?: LayoutName;
+  /** Custom layout, re-run whenever the function changes unless `layoutKey` is given, so memoise it */
+  layout?: LayoutAlgorithm;
+  /** Identifies the custom layout instead of the function, for hosts passing an inline function */
+  layoutKey?: string;
   nodeSizeScale?: number;
   theme?: 'light' | 'dark';
+  layoutOptions?: LayoutOptions;
+  incrementalLayout?: boolean;
+  showClusters?: boolean;
+  radialFocus?: boolean;
+  animationDuration?: number;
+  animationEasing?: EasingName | EasingFunction;
+  edgeStyle?: EdgeStyle;
+  edgeTypeStyles?: EdgeStyleMap;
+  edgeBundling?: boolean;
+  bundlingStrength?: number;
+  edgeWeightScale?: EdgeWeightScale;
+  animatePathFlow?: boolean;
+  pathFlowSpeed?: number;
+  pathFlowMaxEdges?: number;
+  explorationDepth?: number;
+  explorationEdgeTypes?: string[];
+  showCycles?: boolean;
+  onCyclesDetected?: (cycles: DependencyCycle[]) => void;
+  pathMaxLength?: number;
+  sizeNodesBy?: MetricName;
+  colorNodesBy?: MetricName;
+  showCouplingReport?: boolean;
+  couplingDepth?: number;
+  architectureRules?: ArchitectureRule[];
+  onRuleViolations?: (violations: RuleViolation[]) => void;
+  showDeadCode?: boolean;
+  entryPoints?: NodeSelector[];
 }
 
 /**
@@ -39,8 +90,37 @@ export const Graph: React.FC<GraphProps> = ({
   width = 800,
   height = 600,
   autoLayout = 'circular',
+  layout,
+  layoutKey,
   nodeSizeScale = 1,
-  theme = 'light'
+  theme = 'light',
+  layoutOptions,
+  incrementalLayout = false,
+  showClusters,
+  radialFocus = false,
+  animationDuration = 500,
+  animationEasing = 'easeInOut',
+  edgeStyle = 'straight',
+  edgeTypeStyles,
+  edgeBundling = false,
+  bundlingStrength = 0.85,
+  edgeWeightScale,
+  animatePathFlow = false,
+  pathFlowSpeed = 40,
+  pathFlowMaxEdges = 150,
+  explorationDepth = Infinity,
+  explorationEdgeTypes,
+  showCycles = false,
+  onCyclesDetected,
+  pathMaxLength = 6,
+  sizeNodesBy,
+  colorNodesBy,
+  showCouplingReport = false,
+  couplingDepth,
+  architectureRules,
+  onRuleViolations,
+  showDeadCode = false,
+  entryPoints
 }) => {
   // Process incoming data
   const processedData = React.useMemo(() => {
@@ -48,7 +128,8 @@ export const Graph: React.FC<GraphProps> = ({
       console.error('Invalid graph data format');
       return { nodes: [], edges: [], metadata: {} } as GraphData;
     }
-    return data;
+    // Every edge needs a unique id for highlighting, even parallel ones
+    return { ...data, edges: assignEdgeIds(data.edges || []) };
   }, [data]);
 
   // Refs
@@ -59,6 +140,7 @@ export const Graph: React.FC<GraphProps> = ({
   // State
   const [nodePositions, setNodePositions] = useState<Record<string, { x: number; y: number }>>({});
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
+  const [selectedEdge, setSelectedEdge] = useState<Edge | null>(null);
   const [highlightedPath, setHighlightedPath] = useState<{
     nodes: Set<string>;
     edges: Set<string>;
@@ -70,6 +152,61 @@ export const Graph: React.FC<GraphProps> = ({
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [viewportSize, setViewportSize] = useState({ width: 5000, height: 5000 });
   const [expandingNode, setExpandingNode] = useState<string | null>(null);
+  const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+  const [exploration, setExploration] = useState<DependencyExploration | null>(null);
+  const [isShowingCycles, setIsShowingCycles] = useState(showCycles);
+  const [isShowingCoupling, setIsShowingCoupling] = useState(showCouplingReport);
+  const [selectedModule, setSelectedModule] = useState<string | null>(null);
+  const [isShowingViolations, setIsShowingViolations] = useState(false);
+  const [isShowingDeadCode, setIsShowingDeadCode] = useState(showDeadCode);
+  const [isDimmingNonSuspects, setIsDimmingNonSuspects] = useState(false);
+  // Endpoints and settings of the path finder, null while it's closed
+  const [pathFinder, setPathFinder] = useState<{
+    sourceId: string | null;
+    targetId: string | null;
+    mode: PathFinderMode;
+    maxLength: number;
+    selectedIndex: number | null;
+  } | null>(null);
+  // Offsets of the section item rows that edges attach to, measured by the nodes
+  const [itemAnchorOffsets, setItemAnchorOffsets] = useState<Record<string, Record<string, number>>>({});
+  // Radial view around a focused node, with the positions to return to
+  const [egoFocus, setEgoFocus] = useState<{
+    nodeId: string;
+    globalPositions: Record<string, { x: number; y: number }>;
+  } | null>(null);
+
+  // Position changes are interpolated so nodes and their edges glide instead of jumping
+  const { animatePositions, cancelAnimation, isAnimating } = usePositionAnimation(
+    setNodePositions,
+    animationDuration,
+    animationEasing
+  );
+
+  // Layouts are computed in a worker so large graphs don't block the UI
+  const { runLayout, isComputing: isLayoutComputing, progress: layoutProgress } = useLayoutWorker();
+
+  // Latest positions and layout settings, read by the incremental layout without re-running it
+  const nodePositionsRef = useRef(nodePositions);
+  const lastLayoutRef = useRef<{ layout: LayoutName | LayoutAlgorithm; key?: string; options?: LayoutOptions } | null>(null);
+
+  useEffect(() => {
+    nodePositionsRef.current = nodePositions;
+  }, [nodePositions]);
+
+  // Hosts often pass inline options and layout functions. Options are compared
+  // by content, and a custom layout re-runs when its function or its
+  // `layoutKey` changes. The function itself is read from a ref.
+  const layoutOptionsSignature = JSON.stringify(layoutOptions ?? {});
+  const stableLayoutOptions = React.useMemo(
+    () => JSON.parse(layoutOptionsSignature) as LayoutOptions,
+    [layoutOptionsSignature]
+  );
+  const layoutRef = useRef(layout);
+  useEffect(() => {
+    layoutRef.current = layout;
+  }, [layout]);
+  const customLayoutIdentity = layout ? (layoutKey ?? layout) : null;
 
   // Handle window resize
   useEffect(() => {
@@ -102,11 +239,13 @@ export const Graph: React.FC<GraphProps> = ({
 
   // Handle node position changes
   const handleNodePositionChange = useCallback((id: string, newPosition: { x: number; y: number }) => {
+    // Dragging wins over any running transition
+    cancelAnimation();
     setNodePositions(prev => ({
       ...prev,
       [id]: newPosition
     }));
-  }, []);
+  }, [cancelAnimation]);
 
   // Find connected nodes
   const findConnectedNodes = useCallback((nodeId: string) => {
@@ -117,7 +256,7 @@ export const Graph: React.FC<GraphProps> = ({
 
     processedData.edges.forEach((edge) => {
       if (edge.source === nodeId || edge.target === nodeId) {
-        connectedEdges.add(`${edge.source}-${edge.target}`);
+        connectedEdges.add(getEdgeId(edge));
         connectedNodes.add(edge.source);
         connectedNodes.add(edge.target);
       }
@@ -129,51 +268,74 @@ export const Graph: React.FC<GraphProps> = ({
   // Node click handler
   const handleNodeClick = useCallback((node: GraphNode) => {
     setSelectedNode(node);
+    setSelectedEdge(null);
+    setExploration(null);
+    setPathFinder(null);
     const { nodes, edges } = findConnectedNodes(node.id);
     setHighlightedPath({ nodes, edges });
   }, [findConnectedNodes]);
 
-  // Show node dependencies
-  const handleShowDependencies = useCallback((node: GraphNode) => {
-    const dependencies = new Set<string>();
-    const dependencyEdges = new Set<string>();
-
-    processedData.edges.forEach((edge) => {
-      if (edge.target === node.id) {
-        dependencies.add(edge.source);
-        dependencyEdges.add(`${edge.source}-${edge.target}`);
-      }
-    });
+  // Compared by content so an inline array doesn't recreate the handlers every render
+  const explorationEdgeTypesSignature = explorationEdgeTypes ? JSON.stringify(explorationEdgeTypes) : null;
+  const stableExplorationEdgeTypes = React.useMemo(
+    () => explorationEdgeTypesSignature ? JSON.parse(explorationEdgeTypesSignature) as string[] : null,
+    [explorationEdgeTypesSignature]
+  );
 
-    setHighlightedPath({
-      nodes: new Set([node.id, ...dependencies]),
-      edges: dependencyEdges,
+  // Show transitive dependencies, walking edges from target to source
+  const handleShowDependencies = useCallback((node: GraphNode) => {
+    setSelectedNode(node);
+    setSelectedEdge(null);
+    setPathFinder(null);
+    setExploration({
+      nodeId: node.id,
+      direction: 'dependencies',
+      depth: explorationDepth,
+      edgeTypes: stableExplorationEdgeTypes
     });
-  }, [processedData.edges]);
+  }, [explorationDepth, stableExplorationEdgeTypes]);
 
-  // Show node dependents
+  // Show transitive dependents, walking edges from source to target
   const handleShowDependents = useCallback((node: GraphNode) => {
-    const dependents = new Set<string>();
-    const dependentEdges = new Set<string>();
-
-    processedData.edges.forEach((edge) => {
-      if (edge.source === node.id) {
-        dependents.add(edge.target);
-        dependentEdges.add(`${edge.source}-${edge.target}`);
-      }
+    setSelectedNode(node);
+    setSelectedEdge(null);
+    setPathFinder(null);
+    setExploration({
+      nodeId: node.id,
+      direction: 'dependents',
+      depth: explorationDepth,
+      edgeTypes: stableExplorationEdgeTypes
     });
+  }, [explorationDepth, stableExplorationEdgeTypes]);
 
+  // Nodes reached by the exploration, and how far the closure goes without a depth limit
+  const explorationResult = React.useMemo(() => {
+    if (!exploration) return null;
+    const direction = exploration.direction === 'dependencies' ? 'incoming' : 'outgoing';
+    const edgeTypes = exploration.edgeTypes ?? undefined;
+    return {
+      ...traverseEdges(processedData.edges, exploration.nodeId, direction, { maxDepth: exploration.depth, edgeTypes }),
+      reach: traverseEdges(processedData.edges, exploration.nodeId, direction, { edgeTypes }).maxDistance
+    };
+  }, [exploration, processedData.edges]);
+
+  useEffect(() => {
+    if (!explorationResult) return;
     setHighlightedPath({
-      nodes: new Set([node.id, ...dependents]),
-      edges: dependentEdges,
+      nodes: new Set(explorationResult.distances.keys()),
+      edges: explorationResult.edges
     });
-  }, [processedData.edges]);
+  }, [explorationResult]);
 
   // Edge click handler
   const handleEdgeClick = useCallback((edge: Edge) => {
+    setSelectedEdge(edge);
+    setSelectedNode(null);
+    setExploration(null);
+    setPathFinder(null);
     setHighlightedPath({
       nodes: new Set([edge.source, edge.target]),
-      edges: new Set([`${edge.source}-${edge.target}`]),
+      edges: new Set([getEdgeId(edge)]),
     });
   }, []);
 
@@ -181,6 +343,9 @@ export const Graph: React.FC<GraphProps> = ({
   const handleBackgroundClick = useCallback((e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       setSelectedNode(null);
+      setSelectedEdge(null);
+      setExploration(null);
+      setPathFinder(null);
       setHighlightedPath({ nodes: new Set(), edges: new Set() });
     }
   }, []);
@@ -198,6 +363,17 @@ export const Graph: React.FC<GraphProps> = ({
     return node.filepath || node.metadata?.filePath || node.metadata?.path || '';
   }, []);
 
+  // Display name of a node by id, for panels listing paths and edges
+  const nodesById = React.useMemo(
+    () => new Map(processedData.nodes.map(node => [node.id, node])),
+    [processedData.nodes]
+  );
+
+  const getNodeNameById = useCallback((nodeId: string) => {
+    const node = nodesById.get(nodeId);
+    return node ? getNodeDisplayName(node) : nodeId;
+  }, [nodesById, getNodeDisplayName]);
+
   // Calculate node statistics
   const nodeStats = React.useMemo(() => {
     const types = new Map<string, number>();
@@ -213,6 +389,252 @@ export const Graph: React.FC<GraphProps> = ({
     };
   }, [processedData.nodes, getNodeDisplayType]);
 
+  // Centrality of every node, shown in the details panel and optionally encoded
+  // in size or color. Betweenness is expensive on large graphs, so metrics are
+  // only computed once something shows them, off the main thread, and kept
+  // until the data changes.
+  const needsMetrics = !!(sizeNodesBy || colorNodesBy || selectedNode);
+  const nodeMetrics = useGraphMetrics(processedData, needsMetrics);
+
+  const metricSizes = React.useMemo(
+    () => sizeNodesBy && nodeMetrics ? normalizeMetric(nodeMetrics, sizeNodesBy) : null,
+    [nodeMetrics, sizeNodesBy]
+  );
+
+  // Size factor per node when nodes are sized by a metric, shared by nodes, edges and layouts
+  const nodeScales = React.useMemo(() => {
+    if (!metricSizes) return null;
+    return Object.fromEntries(processedData.nodes.map(node => [node.id, getMetricNodeScale(metricSizes[node.id] ?? 0)]));
+  }, [metricSizes, processedData.nodes]);
+
+  const metricColors = React.useMemo(
+    () => colorNodesBy && nodeMetrics ? normalizeMetric(nodeMetrics, colorNodesBy) : null,
+    [nodeMetrics, colorNodesBy]
+  );
+
+  // Coupling per directory or package, only computed while the report is open
+  const couplingReport = React.useMemo(
+    () => isShowingCoupling ? computeCouplingReport(processedData, { depth: couplingDepth }) : [],
+    [isShowingCoupling, processedData, couplingDepth]
+  );
+
+  useEffect(() => {
+    setIsShowingCoupling(showCouplingReport);
+  }, [showCouplingReport]);
+
+  // Highlight a module with the dependencies crossing its boundary
+  const handleModuleClick = useCallback((module: ModuleCoupling) => {
+    const members = new Set(module.nodes);
+    const edges = new Set<string>();
+    processedData.edges.forEach(edge => {
+      if (members.has(edge.source) !== members.has(edge.target) && edge.type !== 'contains') {
+        edges.add(getEdgeId(edge));
+      }
+    });
+    setSelectedModule(module.module);
+    setSelectedNode(null);
+    setSelectedEdge(null);
+    setExploration(null);
+    setPathFinder(null);
+    setHighlightedPath({ nodes: members, edges });
+  }, [processedData.edges]);
+
+  // Dependencies breaking the architecture rules, reported to the host for CI-like checks.
+  // Rules are compared by content so an inline rules array doesn't re-evaluate every render.
+  const rulesSignature = JSON.stringify(architectureRules ?? []);
+  const rules = React.useMemo(() => JSON.parse(rulesSignature) as ArchitectureRule[], [rulesSignature]);
+  const ruleViolations = React.useMemo(
+    () => rules.length ? evaluateArchitectureRules(processedData, rules) : [],
+    [processedData, rules]
+  );
+
+  // Only report when the violations change, and report none once the rules are removed
+  const reportedViolationsRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!rules.length && reportedViolationsRef.current === null) return;
+    const key = ruleViolations.map(violation => `${violation.rule.id}:${violation.edgeId}`).join('|');
+    if (key === reportedViolationsRef.current) return;
+    reportedViolationsRef.current = key;
+    onRuleViolations?.(ruleViolations);
+  }, [rules, ruleViolations, onRuleViolations]);
+
+  // An edge breaking both an error and a warning rule is shown as an error
+  const violatingEdges = React.useMemo(() => {
+    if (ruleViolations.length === 0) return null;
+    const severities = new Map<string, 'error' | 'warning'>();
+    ruleViolations.forEach(violation => {
+      if (severities.get(violation.edgeId) === 'error') return;
+      severities.set(violation.edgeId, violation.rule.severity === 'warning' ? 'warning' : 'error');
+    });
+    return severities;
+  }, [ruleViolations]);
+
+  // Likely dead code, only computed while the panel is open. Entry points are
+  // compared by content like the rules above.
+  const entryPointsSignature = entryPoints ? JSON.stringify(entryPoints) : null;
+  const stableEntryPoints = React.useMemo(
+    () => entryPointsSignature ? JSON.parse(entryPointsSignature) as NodeSelector[] : undefined,
+    [entryPointsSignature]
+  );
+  const deadCodeReport = React.useMemo(
+    () => isShowingDeadCode ? findDeadCode(processedData, { entryPoints: stableEntryPoints }) : null,
+    [isShowingDeadCode, processedData, stableEntryPoints]
+  );
+
+  useEffect(() => {
+    setIsShowingDeadCode(showDeadCode);
+  }, [showDeadCode]);
+
+  // Everything except the suspects fades out while dimming is on
+  const dimmedExcept = isDimmingNonSuspects && deadCodeReport ? deadCodeReport.suspects : null;
+
+  // Edge types present in the data, each with its own style and legend entry
+  const edgeTypes = React.useMemo(() => {
+    const types = new Set<string>();
+    processedData.edges.forEach(edge => {
+      if (edge.type) types.add(edge.type);
+    });
+    return Array.from(types);
+  }, [processedData.edges]);
+
+  // Section items that edges start from or point to, per node
+  const anchorItemIds = React.useMemo(() => {
+    const items = new Map<string, Set<string>>();
+    const add = (nodeId: string, itemId?: string) => {
+      if (!itemId) return;
+      if (!items.has(nodeId)) items.set(nodeId, new Set());
+      items.get(nodeId)!.add(itemId);
+    };
+    processedData.edges.forEach(edge => {
+      add(edge.source, edge.sourceItemId);
+      add(edge.target, edge.targetItemId);
+    });
+    return Object.fromEntries(Array.from(items, ([nodeId, ids]) => [nodeId, Array.from(ids)]));
+  }, [processedData.edges]);
+
+  const handleItemAnchorsMeasured = useCallback((nodeId: string, offsets: Record<string, number>) => {
+    setItemAnchorOffsets(prev => ({ ...prev, [nodeId]: offsets }));
+  }, []);
+
+  const mergedEdgeTypeStyles = React.useMemo(
+    () => ({ ...DEFAULT_EDGE_STYLES, ...edgeTypeStyles }),
+    [edgeTypeStyles]
+  );
+
+  // Directory cluster backgrounds, shown by default with the cluster layout
+  const isShowingClusters = showClusters ?? (!layout && autoLayout === 'cluster');
+  const clusterBounds = React.useMemo(() => {
+    if (!isShowingClusters) return [];
+    return computeClusterBounds(
+      processedData.nodes,
+      nodePositions,
+      { width: NODE_WIDTH * nodeSizeScale, height: NODE_HEIGHT * nodeSizeScale },
+      stableLayoutOptions
+    );
+  }, [isShowingClusters, processedData.nodes, nodePositions, nodeSizeScale, stableLayoutOptions]);
+
+  // Flow along highlighted paths is skipped for large paths, where it costs too much to render
+  const reducedMotion = useReducedMotion();
+  const isPathFlowAnimated = animatePathFlow && !reducedMotion &&
+    highlightedPath.edges.size > 0 && highlightedPath.edges.size <= pathFlowMaxEdges;
+
+  // Pick path finder endpoints, keeping the mode and length limit between searches
+  const setPathEndpoints = useCallback((sourceId: string | null, targetId: string | null) => {
+    setExploration(null);
+    setPathFinder(prev => ({
+      mode: prev?.mode ?? 'shortest',
+      maxLength: prev?.maxLength ?? pathMaxLength,
+      sourceId,
+      targetId,
+      selectedIndex: null
+    }));
+  }, [pathMaxLength]);
+
+  const handleFindPathFrom = useCallback((node: GraphNode) => {
+    const targetId = pathFinder?.targetId ?? null;
+    setPathEndpoints(node.id, targetId === node.id ? null : targetId);
+  }, [pathFinder, setPathEndpoints]);
+
+  const handleFindPathTo = useCallback((node: GraphNode) => {
+    const sourceId = pathFinder?.sourceId ?? null;
+    setPathEndpoints(sourceId === node.id ? null : sourceId, node.id);
+  }, [pathFinder, setPathEndpoints]);
+
+  // Shift-click picks the source, then the target, then starts over
+  const handleNodeShiftClick = useCallback((node: GraphNode) => {
+    if (pathFinder?.sourceId && !pathFinder.targetId && pathFinder.sourceId !== node.id) {
+      setPathEndpoints(pathFinder.sourceId, node.id);
+    } else {
+      setPathEndpoints(node.id, null);
+    }
+  }, [pathFinder, setPathEndpoints]);
+
+  const pathResults = React.useMemo(() => {
+    if (!pathFinder?.sourceId || !pathFinder.targetId) return null;
+    if (pathFinder.mode === 'all') {
+      return findSimplePaths(processedData.edges, pathFinder.sourceId, pathFinder.targetId, {
+        maxLength: pathFinder.maxLength
+      });
+    }
+    const shortest = findShortestPath(processedData.edges, pathFinder.sourceId, pathFinder.targetId);
+    return shortest ? [shortest] : [];
+  }, [pathFinder?.sourceId, pathFinder?.targetId, pathFinder?.mode, pathFinder?.maxLength, processedData.edges]);
+
+  // Highlight the picked endpoints and every found path, or only the one picked in the panel
+  const pathSelectedIndex = pathFinder?.selectedIndex ?? null;
+  const pathSourceId = pathFinder?.sourceId ?? null;
+  const pathTargetId = pathFinder?.targetId ?? null;
+  useEffect(() => {
+    if (!pathSourceId && !pathTargetId) return;
+    const shown = pathResults && pathSelectedIndex !== null ? [pathResults[pathSelectedIndex]] : pathResults || [];
+    const nodes = new Set<string>(shown.flatMap(path => path.nodes));
+    if (pathSourceId) nodes.add(pathSourceId);
+    if (pathTargetId) nodes.add(pathTargetId);
+    setHighlightedPath({ nodes, edges: new Set(shown.flatMap(path => path.edges)) });
+  }, [pathResults, pathSelectedIndex, pathSourceId, pathTargetId]);
+
+  // Circular dependencies, reported to the host whenever the edges change
+  const cycles = React.useMemo(() => findCycles(processedData.edges), [processedData.edges]);
+
+  useEffect(() => {
+    onCyclesDetected?.(cycles);
+  }, [cycles, onCyclesDetected]);
+
+  useEffect(() => {
+    setIsShowingCycles(showCycles);
+  }, [showCycles]);
+
+  const cycleColors = React.useMemo(
+    () => cycles.map((_, index) => getCycleColor(index, theme)),
+    [cycles, theme]
+  );
+
+  // Cycle index of every node and edge in a cycle, while cycles are shown
+  const cycleMembership = React.useMemo(() => {
+    if (!isShowingCycles) return null;
+    const nodes = new Map<string, number>();
+    const edges = new Map<string, number>();
+    cycles.forEach((cycle, index) => {
+      cycle.nodes.forEach(id => nodes.set(id, index));
+      cycle.edges.forEach(id => edges.set(id, index));
+    });
+    return { nodes, edges };
+  }, [cycles, isShowingCycles]);
+
+  const handleCycleClick = useCallback((cycle: DependencyCycle) => {
+    setSelectedNode(null);
+    setSelectedEdge(null);
+    setExploration(null);
+    setPathFinder(null);
+    setHighlightedPath({ nodes: new Set(cycle.nodes), edges: new Set(cycle.edges) });
+  }, []);
+
+  // Directory hierarchy that bundled edges are routed along
+  const bundlingHierarchy = React.useMemo(() => {
+    if (!edgeBundling) return null;
+    return buildBundlingHierarchy(processedData.nodes, nodePositions, layoutOptions?.clusterDepth);
+  }, [edgeBundling, processedData.nodes, nodePositions, layoutOptions?.clusterDepth]);
+
   // Handle section toggle in node details panel
   const toggleSection = useCallback((sectionId: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -306,9 +728,17 @@ export const Graph: React.FC<GraphProps> = ({
     });
   }, []);
 
+  // Nodes sized by a metric are kept apart at their own size when removing overlaps
+  const overlapNodeScales = stableLayoutOptions.removeOverlaps ? nodeScales : null;
+
+  // Pending radial layout around a focused node, superseded by any global layout
+  const cancelEgoLayoutRef = useRef<(() => void) | null>(null);
+
   // Layout calculation for nodes
   useEffect(() => {
     if (!processedData.nodes || processedData.nodes.length === 0) return;
+    cancelEgoLayoutRef.current?.();
+    cancelEgoLayoutRef.current = null;
   
     const nodeCount = processedData.nodes.length;
   
@@ -320,62 +750,74 @@ export const Graph: React.FC<GraphProps> = ({
       y: viewportSize.height / 2
     };
   
-    let positions: Record<string, { x: number; y: number }> = {};
-    const actualLayout = nodeCount > 50 && autoLayout === 'circular' ? 'donut' : autoLayout;
-  
-    // Choose layout algorithm based on configuration
-    if (actualLayout === 'circular') {
-      positions = createCircularLayout(
-        processedData.nodes,
-        center,
-        { width: availableWidth, height: availableHeight }
-      );
-    } else if (actualLayout === 'tree') {
-      // Fall back to circular layout
-      positions = createCircularLayout(
-        processedData.nodes,
-        center,
-        { width: availableWidth, height: availableHeight }
-      );
-    } else if (actualLayout === 'spiral') {
-      positions = createSpiralLayout(
-        processedData.nodes,
-        center,
-        { width: availableWidth, height: availableHeight }
-      );
-    } else if (actualLayout === 'donut') {
-      positions = createDonutLayout(
+    const nodeSize = { width: NODE_WIDTH * nodeSizeScale, height: NODE_HEIGHT * nodeSizeScale };
+    const activeLayout = layoutRef.current || autoLayout;
+    const lastLayout = lastLayoutRef.current;
+    // Inline custom layouts are a new function every render, `layoutKey` tells them apart
+    const isSameLayout = lastLayout !== null &&
+      (lastLayout.layout === activeLayout ||
+        (typeof activeLayout === 'function' && layoutKey !== undefined && lastLayout.key === layoutKey)) &&
+      lastLayout.options === stableLayoutOptions;
+
+    // In incremental mode keep every existing position and only place new nodes,
+    // unless the layout itself was changed
+    if (incrementalLayout && isSameLayout &&
+        processedData.nodes.some(node => nodePositionsRef.current[node.id])) {
+      cancelAnimation();
+      setEgoFocus(null);
+      setNodePositions(placeNodesIncrementally(
         processedData.nodes,
+        processedData.edges,
+        nodePositionsRef.current,
         center,
-        { width: availableWidth, height: availableHeight }
-      );
-    } else {
-      positions = createForceLayout(
-        processedData.nodes,
-        center,
-        { width: availableWidth, height: availableHeight }
-      );
+        undefined,
+        nodeSize
+      ));
+      return;
     }
+
+    // Cancelled by the cleanup below if data or layout change mid-run
+    const cancelLayout = runLayout({
+      layout: activeLayout,
+      nodes: processedData.nodes,
+      edges: processedData.edges,
+      center,
+      availableSpace: { width: availableWidth, height: availableHeight },
+      options: stableLayoutOptions,
+      nodeSize,
+      nodeScales: overlapNodeScales
+    }, (positions) => {
+      lastLayoutRef.current = { layout: activeLayout, key: layoutKey, options: stableLayoutOptions };
+      setEgoFocus(null);
+
+      // Glide from the previous layout, the very first layout appears directly
+      if (Object.keys(nodePositionsRef.current).length > 0) {
+        animatePositions(nodePositionsRef.current, positions);
+      } else {
+        cancelAnimation();
+        setNodePositions(positions);
+      }
   
-    setNodePositions(positions);
-  
-    // Set initial transform to show all nodes at once
-    if (transformGroupRef.current) {
-      const initialScale = getInitialZoomScale(nodeCount);
-      
-      // FIXED TRANSFORM CALCULATION:
-      // We need to calculate how much to translate the viewport so that the center
-      // of the graph (viewportSize/2) is positioned at the center of the container
-      const translateX = (containerSize.width / 2) - ((viewportSize.width / 2) * initialScale);
-      const translateY = (containerSize.height / 2) - ((viewportSize.height / 2) * initialScale);
-                      
-      setTransform({
-        x: translateX,
-        y: translateY,
-        scale: initialScale
-      });
-    }
-  }, [processedData.nodes, processedData.edges, viewportSize, autoLayout, containerSize]);
+      // Set initial transform to show all nodes at once
+      if (transformGroupRef.current) {
+        const initialScale = getInitialZoomScale(nodeCount);
+        
+        // FIXED TRANSFORM CALCULATION:
+        // We need to calculate how much to translate the viewport so that the center
+        // of the graph (viewportSize/2) is positioned at the center of the container
+        const translateX = (containerSize.width / 2) - ((viewportSize.width / 2) * initialScale);
+        const translateY = (containerSize.height / 2) - ((viewportSize.height / 2) * initialScale);
+                        
+        setTransform({
+          x: translateX,
+          y: translateY,
+          scale: initialScale
+        });
+      }
+    });
+
+    return cancelLayout;
+  }, [processedData.nodes, processedData.edges, viewportSize, autoLayout, customLayoutIdentity, layoutKey, containerSize, stableLayoutOptions, incrementalLayout, nodeSizeScale, overlapNodeScales, runLayout, animatePositions, cancelAnimation]);
   
   // Also fix the handleResetView function to use the same calculation
   
@@ -407,7 +849,30 @@ export const Graph: React.FC<GraphProps> = ({
 
     // Calculate the center transform to focus on this node
     // Instead of applying a scale factor to current scale, set a fixed zoom level
-    const focusScale = 1.5;
+    let focusScale = 1.5;
+
+    // Optionally re-arrange the graph in rings around the node, keeping it in place
+    if (radialFocus) {
+      const globalPositions = egoFocus ? egoFocus.globalPositions : nodePositions;
+      cancelEgoLayoutRef.current?.();
+      cancelEgoLayoutRef.current = runLayout({
+        layout: 'radial',
+        nodes: processedData.nodes,
+        edges: processedData.edges,
+        center: nodePos,
+        availableSpace: { width: viewportSize.width * 0.6, height: viewportSize.height * 0.6 },
+        options: { ...stableLayoutOptions, focusNodeId: node.id },
+        nodeSize: { width: NODE_WIDTH * nodeSizeScale, height: NODE_HEIGHT * nodeSizeScale },
+        nodeScales: overlapNodeScales
+      }, (egoPositions) => {
+        cancelEgoLayoutRef.current = null;
+        setEgoFocus({ nodeId: node.id, globalPositions });
+        animatePositions(nodePositionsRef.current, egoPositions);
+      });
+
+      // Zoom out far enough to see the first rings
+      focusScale = Math.min(getInitialZoomScale(processedData.nodes.length) * 1.5, 1);
+    }
     
     // Calculate the transform needed to center the node
     const centerX = containerSize.width / 2;
@@ -426,7 +891,35 @@ export const Graph: React.FC<GraphProps> = ({
     
     // Also select the node
     setSelectedNode(node);
-  }, [nodePositions, containerSize]);
+  }, [nodePositions, containerSize, radialFocus, processedData.nodes, processedData.edges, viewportSize, stableLayoutOptions, nodeSizeScale, overlapNodeScales, egoFocus, runLayout, animatePositions]);
+
+  // Center the view on a node and highlight it, keeping the selected edge so
+  // both of its endpoints can be visited from the edge panel
+  const handleJumpToNode = useCallback((nodeId: string) => {
+    const node = processedData.nodes.find(n => n.id === nodeId);
+    const nodePos = nodePositions[nodeId];
+    if (!node || !nodePos) return;
+
+    setTransform(prev => ({
+      x: containerSize.width / 2 - nodePos.x * prev.scale,
+      y: containerSize.height / 2 - nodePos.y * prev.scale,
+      scale: prev.scale
+    }));
+    setSelectedNode(node);
+    setExploration(null);
+    setPathFinder(null);
+    const { nodes, edges } = findConnectedNodes(node.id);
+    setHighlightedPath({ nodes, edges });
+  }, [processedData.nodes, nodePositions, containerSize, findConnectedNodes]);
+
+  // Leave the radial view and return to the global layout
+  const handleExitFocus = useCallback(() => {
+    cancelEgoLayoutRef.current?.();
+    cancelEgoLayoutRef.current = null;
+    if (!egoFocus) return;
+    animatePositions(nodePositions, egoFocus.globalPositions);
+    setEgoFocus(null);
+  }, [egoFocus, nodePositions, animatePositions]);
 
   // Open the source file of a node
   const handleOpenSourceFile = useCallback((node: GraphNode) => {
@@ -550,10 +1043,20 @@ export const Graph: React.FC<GraphProps> = ({
       if (edge.source === node.id) {
         // Add the target node and edge to our tracking sets
         newNodeIds.add(edge.target);
-        newEdgeKeys.add(`${edge.source}-${edge.target}`);
-        childEdges.add(`${edge.source}-${edge.target}`);
+        newEdgeKeys.add(getEdgeId(edge));
+        childEdges.add(getEdgeId(edge));
       }
     });
+
+    // Dependencies found in metadata highlight whichever edges connect the nodes
+    const addEdgesBetween = (source: string, target: string) => {
+      processedData.edges.forEach((edge) => {
+        if (edge.source === source && edge.target === target) {
+          newEdgeKeys.add(getEdgeId(edge));
+          childEdges.add(getEdgeId(edge));
+        }
+      });
+    };
     
     // Check node metadata for any additional dependencies that might not be in edges
     // This helps find hidden/nested dependencies
@@ -570,8 +1073,7 @@ export const Graph: React.FC<GraphProps> = ({
           
           if (dependentNode) {
             newNodeIds.add(dependentNode.id);
-            newEdgeKeys.add(`${node.id}-${dependentNode.id}`);
-            childEdges.add(`${node.id}-${dependentNode.id}`);
+            addEdgesBetween(node.id, dependentNode.id);
           }
         });
       }
@@ -591,8 +1093,7 @@ export const Graph: React.FC<GraphProps> = ({
           
           if (importedNode) {
             newNodeIds.add(importedNode.id);
-            newEdgeKeys.add(`${node.id}-${importedNode.id}`);
-            childEdges.add(`${node.id}-${importedNode.id}`);
+            addEdgesBetween(node.id, importedNode.id);
           }
         });
       }
@@ -647,8 +1148,12 @@ export const Graph: React.FC<GraphProps> = ({
           };
         });
         
-        // Update the node positions
-        setNodePositions(newPositions);
+        // Grow the revealed nodes out of the expanded node
+        const startPositions = { ...nodePositions };
+        nodesToPlaceArray.forEach(id => {
+          startPositions[id] = nodePos;
+        });
+        animatePositions(startPositions, newPositions);
         
         // Log feedback
         console.log(`Revealed ${nodesToReveal.size} hidden dependencies for node: ${node.name || node.title || node.id}`);
@@ -656,6 +1161,8 @@ export const Graph: React.FC<GraphProps> = ({
     }
     
     // Update highlighted path to include this node and all direct children
+    setExploration(null);
+    setPathFinder(null);
     setHighlightedPath({
       nodes: new Set([node.id, ...newNodeIds]),
       edges: childEdges,
@@ -666,7 +1173,7 @@ export const Graph: React.FC<GraphProps> = ({
     
     // Hide loading animation after everything is done
     setTimeout(() => setExpandingNode(null), 500);
-  }, [processedData.edges, processedData.nodes, nodePositions]);
+  }, [processedData.edges, processedData.nodes, nodePositions, animatePositions]);
 
   // Go to the parent(s) of a node
   const handleGoToParent = useCallback((node: GraphNode) => {
@@ -677,11 +1184,13 @@ export const Graph: React.FC<GraphProps> = ({
     processedData.edges.forEach((edge) => {
       if (edge.target === node.id) {
         parents.add(edge.source);
-        parentEdges.add(`${edge.source}-${edge.target}`);
+        parentEdges.add(getEdgeId(edge));
       }
     });
 
     // Update highlighted path to include this node and all direct parents
+    setExploration(null);
+    setPathFinder(null);
     setHighlightedPath({
       nodes: new Set([node.id, ...parents]),
       edges: parentEdges,
@@ -810,14 +1319,34 @@ export const Graph: React.FC<GraphProps> = ({
 
   // Add effect to reset highlighted paths when graph data changes
   useEffect(() => {
+    const currentNodeIds = new Set(processedData.nodes.map(node => node.id));
+
     // Reset highlightedPath and selectedNode when processedData changes
-    // This prevents dangling arrows when switching between full and focused views
-    setHighlightedPath({ nodes: new Set(), edges: new Set() });
-    setSelectedNode(null);
+    // This prevents dangling arrows when switching between full and focused views.
+    // Incremental updates keep both, entries for removed nodes simply match nothing.
+    if (incrementalLayout) {
+      setSelectedNode(prev => prev && currentNodeIds.has(prev.id)
+        ? processedData.nodes.find(node => node.id === prev.id) || null
+        : null);
+      setSelectedEdge(prev => prev && currentNodeIds.has(prev.source) && currentNodeIds.has(prev.target)
+        ? prev
+        : null);
+      setExploration(prev => prev && currentNodeIds.has(prev.nodeId) ? prev : null);
+      setPathFinder(prev => prev &&
+        (!prev.sourceId || currentNodeIds.has(prev.sourceId)) &&
+        (!prev.targetId || currentNodeIds.has(prev.targetId))
+        ? prev
+        : null);
+    } else {
+      setHighlightedPath({ nodes: new Set(), edges: new Set() });
+      setSelectedNode(null);
+      setSelectedEdge(null);
+      setExploration(null);
+      setPathFinder(null);
+    }
     
     // Reset positions for nodes that no longer exist in the data
     setNodePositions(prevPositions => {
-      const currentNodeIds = new Set(processedData.nodes.map(node => node.id));
       const newPositions: Record<string, { x: number; y: number }> = {};
       
       // Only keep positions for nodes that still exist in the data
@@ -829,7 +1358,7 @@ export const Graph: React.FC<GraphProps> = ({
       
       return newPositions;
     });
-  }, [processedData.nodes]);
+  }, [processedData.nodes, incrementalLayout]);
 
   return (
     <div 
@@ -851,7 +1380,12 @@ export const Graph: React.FC<GraphProps> = ({
         onWheel={handleWheel}
         onClick={handleBackgroundClick}
       >
-        <GraphDefs theme={theme} />
+        <GraphDefs
+          theme={theme}
+          edgeTypes={edgeTypes}
+          edgeTypeStyles={mergedEdgeTypeStyles}
+          cycleColors={isShowingCycles ? cycleColors : undefined}
+        />
         
         <rect 
           className="graph-background"
@@ -867,6 +1401,9 @@ export const Graph: React.FC<GraphProps> = ({
           ref={transformGroupRef}
           transform={`translate(${transform.x} ${transform.y}) scale(${transform.scale})`}
         >
+          {/* Render directory cluster backgrounds */}
+          <GraphClusters clusters={clusterBounds} theme={theme} />
+
           {/* Render graph edges */}
           <GraphEdges 
             edges={processedData.edges}
@@ -877,6 +1414,21 @@ export const Graph: React.FC<GraphProps> = ({
             theme={theme}
             transform={transform}
             onEdgeClick={handleEdgeClick}
+            edgeStyle={edgeStyle}
+            edgeTypeStyles={mergedEdgeTypeStyles}
+            bundlingHierarchy={bundlingHierarchy}
+            bundlingStrength={bundlingStrength}
+            hoveredNodeId={hoveredNodeId}
+            edgeWeightScale={edgeWeightScale}
+            itemAnchorOffsets={itemAnchorOffsets}
+            animateFlow={isPathFlowAnimated}
+            flowSpeed={pathFlowSpeed}
+            cycleIndexByEdge={cycleMembership?.edges}
+            cycleColors={cycleColors}
+            violatingEdges={violatingEdges}
+            dimmedExcept={dimmedExcept}
+            isAnimating={isAnimating}
+            nodeScales={nodeScales}
           />
 
           {/* Render graph nodes */}
@@ -885,11 +1437,15 @@ export const Graph: React.FC<GraphProps> = ({
 
             if (position.x === 0 && position.y === 0) return null;
 
+            // Box the node is drawn in, as large as the node itself when it's sized by a metric
+            const boxSize = NODE_WIDTH * nodeSizeScale * (nodeScales?.[node.id] ?? 1);
+
             // Remove position culling to allow nodes to be visible even when outside the viewport
             // When scrolling back to these areas, nodes will be visible again
 
             const isHighlighted = selectedNode?.id === node.id;
             const isPathHighlighted = highlightedPath.nodes.has(node.id);
+            const cycleIndex = cycleMembership?.nodes.get(node.id);
 
             const displayName = getNodeDisplayName(node);
             const displayType = getNodeDisplayType(node);
@@ -898,11 +1454,13 @@ export const Graph: React.FC<GraphProps> = ({
             return (
               <foreignObject
                 key={`node-${node.id}`}
-                x={position.x - (180 * nodeSizeScale / 2)}
-                y={position.y - (180 * nodeSizeScale / 2)}
-                width={180 * nodeSizeScale}
-                height={180 * nodeSizeScale}
+                x={position.x - (boxSize / 2)}
+                y={position.y - (boxSize / 2)}
+                width={boxSize}
+                height={boxSize}
                 className="overflow-visible"
+                onMouseEnter={() => setHoveredNodeId(node.id)}
+                onMouseLeave={() => setHoveredNodeId(current => current === node.id ? null : current)}
               >
                 <GraphNodeComponent
                   node={{
@@ -911,11 +1469,11 @@ export const Graph: React.FC<GraphProps> = ({
                     type: displayType,
                     filepath: displayPath
                   }}
-                  position={{ x: 180 * nodeSizeScale / 2, y: 180 * nodeSizeScale / 2 }}
+                  position={{ x: boxSize / 2, y: boxSize / 2 }}
                   onPositionChange={(id, newPos) => {
                     const graphPos = {
-                      x: position.x + (newPos.x - (180 * nodeSizeScale / 2)),
-                      y: position.y + (newPos.y - (180 * nodeSizeScale / 2))
+                      x: position.x + (newPos.x - (boxSize / 2)),
+                      y: position.y + (newPos.y - (boxSize / 2))
                     };
                     handleNodePositionChange(id, graphPos);
                   }}
@@ -935,7 +1493,18 @@ export const Graph: React.FC<GraphProps> = ({
                   onExpandNode={handleExpandNode}
                   onGoToParent={handleGoToParent}
                   onCopyImportPath={handleCopyImportPath}
+                  onFindPathFrom={handleFindPathFrom}
+                  onFindPathTo={handleFindPathTo}
+                  onNodeShiftClick={handleNodeShiftClick}
                   expandingNode={expandingNode}
+                  anchorItemIds={anchorItemIds[node.id]}
+                  pathDistance={explorationResult?.distances.get(node.id)}
+                  maxPathDistance={explorationResult?.maxDistance}
+                  cycleColor={cycleIndex !== undefined ? cycleColors[cycleIndex] : undefined}
+                  metricScale={nodeScales?.[node.id]}
+                  metricColor={metricColors ? getNodeMetricColor(metricColors[node.id] ?? 0, theme) : undefined}
+                  isDimmed={dimmedExcept ? !dimmedExcept.has(node.id) : false}
+                  onItemAnchorsMeasured={handleItemAnchorsMeasured}
                 />
               </foreignObject>
             );
@@ -948,6 +1517,23 @@ export const Graph: React.FC<GraphProps> = ({
         onZoomIn={handleZoomIn}
         onZoomOut={handleZoomOut}
         onResetView={handleResetView}
+        onExitFocus={egoFocus ? handleExitFocus : undefined}
+        onToggleCycles={() => setIsShowingCycles(showing => !showing)}
+        isShowingCycles={isShowingCycles}
+        onToggleCouplingReport={() => setIsShowingCoupling(showing => !showing)}
+        isShowingCouplingReport={isShowingCoupling}
+        onToggleViolations={rules.length ? () => setIsShowingViolations(showing => !showing) : undefined}
+        isShowingViolations={isShowingViolations}
+        violationCount={ruleViolations.length}
+        onToggleDeadCode={() => setIsShowingDeadCode(showing => !showing)}
+        isShowingDeadCode={isShowingDeadCode}
+        theme={theme}
+      />
+
+      {/* Layout progress indicator */}
+      <LayoutProgress
+        isComputing={isLayoutComputing}
+        progress={layoutProgress}
         theme={theme}
       />
 
@@ -957,6 +1543,11 @@ export const Graph: React.FC<GraphProps> = ({
         data={processedData}
         transform={transform}
         theme={theme}
+        edgeTypes={edgeTypes}
+        edgeTypeStyles={mergedEdgeTypeStyles}
+        cycles={isShowingCycles ? cycles : null}
+        cycleColors={cycleColors}
+        onCycleClick={handleCycleClick}
       />
 
       {/* Node details panel */}
@@ -971,11 +1562,92 @@ export const Graph: React.FC<GraphProps> = ({
         onToggleSection={toggleSection}
         onShowDependencies={handleShowDependencies}
         onShowDependents={handleShowDependents}
+        exploration={exploration?.nodeId === selectedNode?.id ? exploration : null}
+        explorationReach={explorationResult?.reach ?? 0}
+        explorationCount={explorationResult ? explorationResult.distances.size - 1 : 0}
+        edgeTypes={edgeTypes}
+        onExplorationChange={setExploration}
+        metrics={selectedNode ? nodeMetrics?.[selectedNode.id] : undefined}
         onClose={() => setSelectedNode(null)}
         getNodeDisplayName={getNodeDisplayName}
         getNodeDisplayType={getNodeDisplayType}
         getNodeDisplayPath={getNodeDisplayPath}
       />
+
+      {/* Path finder panel */}
+      {pathFinder && (
+        <PathFinderPanel
+          sourceId={pathFinder.sourceId}
+          targetId={pathFinder.targetId}
+          paths={pathResults || []}
+          mode={pathFinder.mode}
+          maxLength={pathFinder.maxLength}
+          selectedPathIndex={pathFinder.selectedIndex}
+          theme={theme}
+          onModeChange={(mode) => setPathFinder(prev => prev && { ...prev, mode, selectedIndex: null })}
+          onMaxLengthChange={(maxLength) => setPathFinder(prev => prev && { ...prev, maxLength, selectedIndex: null })}
+          onSelectPath={(selectedIndex) => setPathFinder(prev => prev && { ...prev, selectedIndex })}
+          onSwap={() => setPathEndpoints(pathFinder.targetId, pathFinder.sourceId)}
+          onClose={() => {
+            setPathFinder(null);
+            setHighlightedPath({ nodes: new Set(), edges: new Set() });
+          }}
+          getNodeName={getNodeNameById}
+        />
+      )}
+
+      {/* Architecture rule violations */}
+      {isShowingViolations && rules.length > 0 && (
+        <RuleViolationsPanel
+          violations={ruleViolations}
+          theme={theme}
+          selectedEdgeId={selectedEdge ? getEdgeId(selectedEdge) : null}
+          onViolationClick={handleEdgeClick}
+          onClose={() => setIsShowingViolations(false)}
+          getNodeName={getNodeNameById}
+        />
+      )}
+
+      {/* Module coupling report */}
+      {isShowingCoupling && (
+        <CouplingReportPanel
+          report={couplingReport}
+          theme={theme}
+          selectedModule={selectedModule}
+          onModuleClick={handleModuleClick}
+          onClose={() => {
+            setIsShowingCoupling(false);
+            setSelectedModule(null);
+          }}
+        />
+      )}
+
+      {/* Dead code suspects */}
+      {deadCodeReport && (
+        <DeadCodePanel
+          report={deadCodeReport}
+          nodes={processedData.nodes}
+          theme={theme}
+          dimOthers={isDimmingNonSuspects}
+          onDimOthersChange={setIsDimmingNonSuspects}
+          onNodeClick={handleJumpToNode}
+          onClose={() => setIsShowingDeadCode(false)}
+          getNodeName={getNodeNameById}
+        />
+      )}
+
+      {/* Edge details panel */}
+      <EdgeDetailsPanel
+        edge={selectedEdge}
+        sourceNode={selectedEdge ? processedData.nodes.find(node => node.id === selectedEdge.source) : undefined}
+        targetNode={selectedEdge ? processedData.nodes.find(node => node.id === selectedEdge.target) : undefined}
+        containerSize={containerSize}
+        theme={theme}
+        edgeTypeStyles={mergedEdgeTypeStyles}
+        onJumpToNode={handleJumpToNode}
+        onClose={() => setSelectedEdge(null)}
+        getNodeDisplayName={getNodeDisplayName}
+      />
     </div>
   );
 };
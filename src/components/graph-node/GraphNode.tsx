@@ -1,6 +1,6 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect, useMemo } from 'react';
 import { MoreHorizontal } from 'lucide-react';
-import { Node } from '../../types/graph';
+import { Node, SectionItem } from '../../types/graph';
 import { useDragHandler } from '../../hooks/useDragHandler';
 import { getNodeColor } from '../../utils/graph/nodeStyles';
 import { NodeIcon } from './NodeIcon';
@@ -28,7 +28,27 @@ interface GraphNodeProps {
   onExpandNode?: (node: Node) => void;
   onGoToParent?: (node: Node) => void;
   onCopyImportPath?: (node: Node) => void;
+  onFindPathFrom?: (node: Node) => void;
+  onFindPathTo?: (node: Node) => void;
+  /** Shift-click, used to pick path finder endpoints */
+  onNodeShiftClick?: (node: Node) => void;
   expandingNode?: string | null;
+  /** Section items that edges attach to, rendered as rows with anchor points */
+  anchorItemIds?: string[];
+  /** Reports the vertical offset of each anchor row from the node center */
+  onItemAnchorsMeasured?: (nodeId: string, offsets: Record<string, number>) => void;
+  /** Hops from the node a dependency exploration started at */
+  pathDistance?: number;
+  /** Distance of the furthest node reached by the exploration */
+  maxPathDistance?: number;
+  /** Color of the dependency cycle the node is part of, when cycles are shown */
+  cycleColor?: string;
+  /** Extra scale of the node card when nodes are sized by a metric */
+  metricScale?: number;
+  /** Fill and border replacing the type colors when nodes are colored by a metric */
+  metricColor?: { background: string; border: string };
+  /** Fade the node out, e.g. when it isn't a dead code suspect */
+  isDimmed?: boolean;
 }
 
 /**
@@ -54,7 +74,18 @@ export const GraphNode: React.FC<GraphNodeProps> = ({
   onExpandNode,
   onGoToParent,
   onCopyImportPath,
-  expandingNode = null
+  onFindPathFrom,
+  onFindPathTo,
+  onNodeShiftClick,
+  expandingNode = null,
+  anchorItemIds,
+  onItemAnchorsMeasured,
+  pathDistance,
+  maxPathDistance = 0,
+  cycleColor,
+  metricScale = 1,
+  metricColor,
+  isDimmed = false
 }) => {
   // State
   const [showMenu, setShowMenu] = useState(false);
@@ -66,6 +97,7 @@ export const GraphNode: React.FC<GraphNodeProps> = ({
   // Refs
   const nodeRef = useRef<HTMLDivElement>(null);
   const tooltipTimeoutRef = useRef<number | undefined>(undefined);
+  const measuredAnchorsRef = useRef('');
 
   // Use the drag handler hook
   const { isDragging, startDrag } = useDragHandler(
@@ -77,6 +109,12 @@ export const GraphNode: React.FC<GraphNodeProps> = ({
 
   // Handle node click (when not dragging)
   const handleNodeClick = (e: React.MouseEvent) => {
+    if (!isDragging && e.shiftKey && onNodeShiftClick) {
+      e.preventDefault();
+      e.stopPropagation();
+      onNodeShiftClick(node);
+      return;
+    }
     if (!isDragging && onNodeClick) {
       e.preventDefault();
       e.stopPropagation();
@@ -193,6 +231,32 @@ export const GraphNode: React.FC<GraphNodeProps> = ({
     setTooltipPosition({ x: position.x + nodeWidth / 2, y: position.y - 20 });
   }, [position.x, position.y, sizeScale, totalNodesInView]);
 
+  // Section items with edges attached, in section order
+  const anchorItems = useMemo(() => {
+    if (!anchorItemIds?.length) return [];
+    const ids = new Set(anchorItemIds);
+    return (node.sections || []).flatMap(section => section.items).filter(item => ids.has(item.id));
+  }, [node.sections, anchorItemIds]);
+
+  // Measure the anchor rows so edges can be routed to them. Offsets are
+  // layout sizes, so they're scaled like the card is.
+  useLayoutEffect(() => {
+    const card = nodeRef.current;
+    if (!card || !onItemAnchorsMeasured || anchorItems.length === 0) return;
+
+    const offsets: Record<string, number> = {};
+    card.querySelectorAll<HTMLElement>('[data-anchor-item-id]').forEach(row => {
+      offsets[row.dataset.anchorItemId!] = (row.offsetTop + row.offsetHeight / 2 - card.offsetHeight / 2) * metricScale;
+    });
+
+    // Only report changes, every report re-routes the edges
+    const key = JSON.stringify(offsets);
+    if (key !== measuredAnchorsRef.current) {
+      measuredAnchorsRef.current = key;
+      onItemAnchorsMeasured(node.id, offsets);
+    }
+  }, [node, anchorItems, sizeScale, totalNodesInView, metricScale, isInteractive, onItemAnchorsMeasured]);
+
   // Calculate visual properties
   const isDark = theme === 'dark';
   const baseNodeWidth = 180;
@@ -231,6 +295,14 @@ export const GraphNode: React.FC<GraphNodeProps> = ({
       : 'shadow-md';
   const dragStyle = isDragging ? 'opacity-80 scale-105' : 'opacity-100';
 
+  // Explored nodes fade with their distance from the start node. An inline
+  // opacity overrides the drag class, so the drag fade is applied on top of it.
+  const distanceOpacity = pathDistance && maxPathDistance > 1
+    ? 1 - 0.5 * (pathDistance - 1) / (maxPathDistance - 1)
+    : undefined;
+  const fadedOpacity = isDimmed ? 0.25 : distanceOpacity;
+  const opacity = fadedOpacity !== undefined && isDragging ? fadedOpacity * 0.8 : fadedOpacity;
+
   return (
     <div
       ref={nodeRef}
@@ -239,10 +311,15 @@ export const GraphNode: React.FC<GraphNodeProps> = ({
       style={{
         left: position.x,
         top: position.y,
-        transform: 'translate(-50%, -50%)',
+        transform: metricScale !== 1 ? `translate(-50%, -50%) scale(${metricScale})` : 'translate(-50%, -50%)',
         width: `${nodeWidth}px`,
         zIndex: isDragging || showMenu || isHighlighted ? 50 : isPathHighlighted ? 5 : 1,
         touchAction: 'none',
+        backgroundColor: metricColor?.background,
+        borderColor: metricColor?.border,
+        opacity,
+        // Selection and path rings take precedence over the cycle outline
+        boxShadow: cycleColor && !isHighlighted && !isPathHighlighted ? `0 0 0 3px ${cycleColor}` : undefined,
       }}
       onMouseDown={handleMouseDown}
       onMouseEnter={handleMouseEnter}
@@ -267,6 +344,17 @@ export const GraphNode: React.FC<GraphNodeProps> = ({
         )}
       </div>
       
+      {pathDistance !== undefined && pathDistance > 0 && (
+        <div
+          className={`absolute -top-2 -left-2 min-w-[1.25rem] h-5 px-1 rounded-full text-[10px] font-medium flex items-center justify-center ${
+            isDark ? 'bg-green-600 text-white' : 'bg-green-500 text-white'
+          }`}
+          title={`${pathDistance} ${pathDistance === 1 ? 'hop' : 'hops'} away`}
+        >
+          {pathDistance}
+        </div>
+      )}
+
       {displayPath && (
         <div className="text-xs opacity-70 mt-1 truncate">
           {displayPath}
@@ -277,6 +365,28 @@ export const GraphNode: React.FC<GraphNodeProps> = ({
         {displayType}
       </div>
 
+      {anchorItems.length > 0 && (
+        <div className={`mt-1 border-t ${isDark ? 'border-white/10' : 'border-black/10'}`}>
+          {anchorItems.map((item: SectionItem) => (
+            <div
+              key={item.id}
+              data-anchor-item-id={item.id}
+              className="relative text-xs font-mono py-0.5"
+              title={item.value}
+            >
+              {/* Anchor points sit on the left and right borders of the node */}
+              <span className={`absolute -left-[17px] top-1/2 -translate-y-1/2 w-2 h-2 rounded-full border ${
+                isDark ? 'bg-gray-900 border-gray-400' : 'bg-white border-gray-500'
+              }`} />
+              <div className="truncate">{item.value}</div>
+              <span className={`absolute -right-[17px] top-1/2 -translate-y-1/2 w-2 h-2 rounded-full border ${
+                isDark ? 'bg-gray-900 border-gray-400' : 'bg-white border-gray-500'
+              }`} />
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Dropdown Menu */}
       <NodeMenu 
         node={node}
@@ -292,6 +402,8 @@ export const GraphNode: React.FC<GraphNodeProps> = ({
         onExpandNode={onExpandNode}
         onGoToParent={onGoToParent}
         onCopyImportPath={onCopyImportPath}
+        onFindPathFrom={onFindPathFrom}
+        onFindPathTo={onFindPathTo}
       />
 
       {/* Context Menu (Right Click) */}
@@ -309,6 +421,8 @@ export const GraphNode: React.FC<GraphNodeProps> = ({
         onExpandNode={onExpandNode}
         onGoToParent={onGoToParent}
         onCopyImportPath={onCopyImportPath}
+        onFindPathFrom={onFindPathFrom}
+        onFindPathTo={onFindPathTo}
         position="contextmenu"
         contextMenuPosition={contextMenuPosition}
       />
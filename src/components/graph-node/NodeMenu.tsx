@@ -1,5 +1,5 @@
 import React from 'react';
-import { Info, ArrowUpRight, ArrowDownRight, X, Focus, FolderOpen, FileSearch, ChevronsUpDown, ArrowUp, Copy } from 'lucide-react';
+import { Info, ArrowUpRight, ArrowDownRight, X, Focus, FolderOpen, FileSearch, ChevronsUpDown, ArrowUp, Copy, Route, MapPin } from 'lucide-react';
 import { Node } from '../../types/graph';
 
 interface NodeMenuProps {
@@ -16,6 +16,8 @@ interface NodeMenuProps {
   onExpandNode?: (node: Node) => void;
   onGoToParent?: (node: Node) => void;
   onCopyImportPath?: (node: Node) => void;
+  onFindPathFrom?: (node: Node) => void;
+  onFindPathTo?: (node: Node) => void;
   position?: 'right' | 'contextmenu';
   contextMenuPosition?: { x: number; y: number };
 }
@@ -36,7 +38,9 @@ export const NodeMenu: React.FC<NodeMenuProps> = ({
   onRevealInFileTree,
   onExpandNode,
   onGoToParent,
-  onCopyImportPath
+  onCopyImportPath,
+  onFindPathFrom,
+  onFindPathTo
 }) => {
   if (!show) return null;
   
@@ -199,6 +203,38 @@ export const NodeMenu: React.FC<NodeMenuProps> = ({
         <ArrowUpRight className="w-4 h-4" />
         Show Dependents
       </button>
+
+      {onFindPathFrom && (
+        <button 
+          className={`w-full px-3 py-2 text-left text-sm ${
+            isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-50'
+          } flex items-center gap-2`}
+          onClick={(e) => {
+            e.stopPropagation();
+            onFindPathFrom(node);
+            onClose();
+          }}
+        >
+          <Route className="w-4 h-4" />
+          Find Path From Here
+        </button>
+      )}
+
+      {onFindPathTo && (
+        <button 
+          className={`w-full px-3 py-2 text-left text-sm ${
+            isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-50'
+          } flex items-center gap-2`}
+          onClick={(e) => {
+            e.stopPropagation();
+            onFindPathTo(node);
+            onClose();
+          }}
+        >
+          <MapPin className="w-4 h-4" />
+          Find Path To Here
+        </button>
+      )}
       
       <button 
         className={`w-full px-3 py-2 text-left text-sm ${
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import { X, Table, ChartScatter } from 'lucide-react';
+import { ModuleCoupling } from '../../utils/graph/coupling';
+
+interface CouplingReportPanelProps {
+  report: ModuleCoupling[];
+  theme: 'light' | 'dark';
+  selectedModule?: string | null;
+  onModuleClick?: (module: ModuleCoupling) => void;
+  onClose: () => void;
+}
+
+type SortKey = 'module' | 'nodes' | 'afferent' | 'efferent' | 'instability' | 'abstractness' | 'distance';
+
+const COLUMNS: Array<{ key: SortKey; label: string; title: string }> = [
+  { key: 'module', label: 'Module', title: 'Directory or package' },
+  { key: 'nodes', label: 'N', title: 'Number of nodes' },
+  { key: 'afferent', label: 'Ca', title: 'Afferent coupling: nodes outside depending on this module' },
+  { key: 'efferent', label: 'Ce', title: 'Efferent coupling: nodes inside depending on other modules' },
+  { key: 'instability', label: 'I', title: 'Instability: Ce / (Ca + Ce)' },
+  { key: 'abstractness', label: 'A', title: 'Abstractness: abstract types / all types' },
+  { key: 'distance', label: 'D', title: 'Distance from the main sequence: |A + I - 1|' }
+];
+
+// Size of the scatter plot, in pixels
+const PLOT_SIZE = 280;
+const PLOT_PADDING = 28;
+
+/**
+ * Green on the main sequence, red far away from it
+ */
+function getDistanceColor(distance: number): string {
+  return `hsl(${Math.round(130 - 130 * Math.min(distance, 1))}, 70%, 45%)`;
+}
+
+/**
+ * Coupling and instability per module, as a sortable table or as a scatter
+ * plot of abstractness against instability around the main sequence
+ */
+export const CouplingReportPanel: React.FC<CouplingReportPanelProps> = ({
+  report,
+  theme,
+  selectedModule,
+  onModuleClick,
+  onClose
+}) => {
+  const [view, setView] = useState<'table' | 'scatter'>('table');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'distance', descending: true });
+
+  const colors = theme === 'dark'
+    ? {
+      panel: 'bg-gray-800 border-gray-700',
+      text: 'text-white',
+      textSecondary: 'text-gray-300',
+      hoverBg: 'hover:bg-gray-700',
+      selectedBg: 'bg-blue-500/20',
+      border: 'border-gray-700',
+      axis: '#6b7280',
+      grid: '#374151'
+    }
+    : {
+      panel: 'bg-white border-gray-200',
+      text: 'text-gray-900',
+      textSecondary: 'text-gray-600',
+      hoverBg: 'hover:bg-gray-100',
+      selectedBg: 'bg-blue-50',
+      border: 'border-gray-200',
+      axis: '#9ca3af',
+      grid: '#e5e7eb'
+    };
+
+  const sorted = [...report].sort((a, b) => {
+    const value = (module: ModuleCoupling) => sort.key === 'nodes' ? module.nodes.length : module[sort.key];
+    const first = value(a);
+    const second = value(b);
+    const order = typeof first === 'string' ? first.localeCompare(second as string) : first - (second as number);
+    return sort.descending ? -order : order;
+  });
+
+  const handleSort = (key: SortKey) => {
+    setSort(current => ({ key, descending: current.key === key ? !current.descending : key !== 'module' }));
+  };
+
+  const toPlot = (value: number) => PLOT_PADDING + value * (PLOT_SIZE - 2 * PLOT_PADDING);
+  const maxNodes = Math.max(1, ...report.map(module => module.nodes.length));
+
+  return (
+    <div
+      className={`fixed top-4 left-1/2 -translate-x-1/2 z-40 w-[560px] max-w-[calc(100vw-2rem)] max-h-[80vh] ${colors.panel} ${colors.text} backdrop-blur-md rounded-lg shadow-xl border overflow-hidden flex flex-col text-xs`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className={`p-3 flex items-center justify-between border-b ${colors.border}`}>
+        <h3 className="font-medium text-sm">Module coupling</h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setView('table')}
+            className={`p-1 rounded ${colors.hoverBg} ${view === 'table' ? colors.selectedBg : ''}`}
+            aria-label="Table"
+            title="Table"
+          >
+            <Table className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setView('scatter')}
+            className={`p-1 rounded ${colors.hoverBg} ${view === 'scatter' ? colors.selectedBg : ''}`}
+            aria-label="Main sequence"
+            title="Main sequence"
+          >
+            <ChartScatter className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className={`p-1 rounded-full ${colors.hoverBg}`}
+            aria-label="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {report.length === 0 ? (
+        <div className={`text-sm ${colors.textSecondary} italic p-3`}>
+          No modules found
+        </div>
+      ) : view === 'table' ? (
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full">
+            <thead className={`sticky top-0 ${colors.panel}`}>
+              <tr className={`border-b ${colors.border}`}>
+                {COLUMNS.map(column => (
+                  <th
+                    key={column.key}
+                    onClick={() => handleSort(column.key)}
+                    className={`px-2 py-1.5 font-medium cursor-pointer select-none ${column.key === 'module' ? 'text-left' : 'text-right'}`}
+                    title={column.title}
+                  >
+                    {column.label}
+                    {sort.key === column.key && (sort.descending ? ' ↓' : ' ↑')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(module => (
+                <tr
+                  key={module.module}
+                  onClick={() => onModuleClick?.(module)}
+                  className={`cursor-pointer ${colors.hoverBg} ${selectedModule === module.module ? colors.selectedBg : ''}`}
+                >
+                  <td className="px-2 py-1 truncate max-w-[220px]" title={module.module}>{module.module}</td>
+                  <td className="px-2 py-1 text-right">{module.nodes.length}</td>
+                  <td className="px-2 py-1 text-right">{module.afferent}</td>
+                  <td className="px-2 py-1 text-right">{module.efferent}</td>
+                  <td className="px-2 py-1 text-right">{module.instability.toFixed(2)}</td>
+                  <td className="px-2 py-1 text-right">{module.abstractness.toFixed(2)}</td>
+                  <td className="px-2 py-1 text-right font-medium" style={{ color: getDistanceColor(module.distance) }}>
+                    {module.distance.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-3 flex justify-center">
+          <svg width={PLOT_SIZE} height={PLOT_SIZE} className="overflow-visible">
+            {/* Plot area, abstractness grows upwards */}
+            <rect
+              x={PLOT_PADDING}
+              y={PLOT_PADDING}
+              width={PLOT_SIZE - 2 * PLOT_PADDING}
+              height={PLOT_SIZE - 2 * PLOT_PADDING}
+              fill="none"
+              stroke={colors.grid}
+            />
+            {/* Main sequence from (I=0, A=1) to (I=1, A=0) */}
+            <line
+              x1={toPlot(0)}
+              y1={PLOT_SIZE - toPlot(1)}
+              x2={toPlot(1)}
+              y2={PLOT_SIZE - toPlot(0)}
+              stroke={colors.axis}
+              strokeDasharray="4 3"
+            />
+            <text x={toPlot(1) - 4} y={PLOT_SIZE - toPlot(1) + 12} fontSize={9} textAnchor="end" fill={colors.axis}>
+              Zone of uselessness
+            </text>
+            <text x={toPlot(0) + 4} y={PLOT_SIZE - toPlot(0) - 4} fontSize={9} fill={colors.axis}>
+              Zone of pain
+            </text>
+            <text x={PLOT_SIZE / 2} y={PLOT_SIZE - 6} fontSize={10} textAnchor="middle" fill={colors.axis}>
+              Instability (I)
+            </text>
+            <text
+              x={8}
+              y={PLOT_SIZE / 2}
+              fontSize={10}
+              textAnchor="middle"
+              fill={colors.axis}
+              transform={`rotate(-90 8 ${PLOT_SIZE / 2})`}
+            >
+              Abstractness (A)
+            </text>
+            {sorted.map(module => (
+              <circle
+                key={module.module}
+                cx={toPlot(module.instability)}
+                cy={PLOT_SIZE - toPlot(module.abstractness)}
+                r={3 + 7 * Math.sqrt(module.nodes.length / maxNodes)}
+                fill={getDistanceColor(module.distance)}
+                fillOpacity={0.7}
+                stroke={selectedModule === module.module ? '#3b82f6' : 'none'}
+                strokeWidth={2}
+                className="cursor-pointer"
+                onClick={() => onModuleClick?.(module)}
+              >
+                <title>
+                  {`${module.module}\nI ${module.instability.toFixed(2)}, A ${module.abstractness.toFixed(2)}, D ${module.distance.toFixed(2)}`}
+                </title>
+              </circle>
+            ))}
+          </svg>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+import { X, Ghost, Download } from 'lucide-react';
+import { Node } from '../../types/graph';
+import { DeadCodeReport, formatDeadCodeReport } from '../../utils/graph/deadCode';
+
+interface DeadCodePanelProps {
+  report: DeadCodeReport;
+  nodes: Node[];
+  theme: 'light' | 'dark';
+  dimOthers: boolean;
+  onDimOthersChange: (dimOthers: boolean) => void;
+  onNodeClick: (nodeId: string) => void;
+  onClose: () => void;
+  getNodeName: (nodeId: string) => string;
+}
+
+/**
+ * Download text as a file through a temporary link
+ */
+function downloadFile(content: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Unreferenced nodes and disconnected components that are likely dead code
+ */
+export const DeadCodePanel: React.FC<DeadCodePanelProps> = ({
+  report,
+  nodes,
+  theme,
+  dimOthers,
+  onDimOthersChange,
+  onNodeClick,
+  onClose,
+  getNodeName
+}) => {
+  const colors = theme === 'dark'
+    ? {
+      panel: 'bg-gray-800 border-gray-700',
+      text: 'text-white',
+      textSecondary: 'text-gray-300',
+      hoverBg: 'hover:bg-gray-700',
+      itemBg: 'bg-gray-700/30',
+      button: 'bg-gray-700 hover:bg-gray-600 text-white',
+      border: 'border-gray-700'
+    }
+    : {
+      panel: 'bg-white border-gray-200',
+      text: 'text-gray-900',
+      textSecondary: 'text-gray-600',
+      hoverBg: 'hover:bg-gray-100',
+      itemBg: 'bg-gray-50/70',
+      button: 'bg-gray-100 hover:bg-gray-200 text-gray-700',
+      border: 'border-gray-200'
+    };
+
+  const renderNode = (nodeId: string) => (
+    <button
+      key={nodeId}
+      onClick={() => onNodeClick(nodeId)}
+      className={`w-full text-left p-1.5 rounded my-1 truncate ${colors.itemBg} ${colors.hoverBg}`}
+      title={nodeId}
+    >
+      {getNodeName(nodeId)}
+    </button>
+  );
+
+  return (
+    <div
+      className={`fixed bottom-4 left-[344px] z-40 w-[300px] max-h-[60vh] ${colors.panel} ${colors.text} backdrop-blur-md rounded-lg shadow-xl border overflow-hidden flex flex-col text-xs`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className={`p-3 flex items-center justify-between border-b ${colors.border}`}>
+        <div className="flex items-center gap-2">
+          <Ghost className="w-4 h-4" />
+          <h3 className="font-medium text-sm">Dead code suspects: {report.suspects.size}</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className={`p-1 rounded-full ${colors.hoverBg}`}
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <label className={`px-3 py-2 flex items-center gap-2 border-b ${colors.border} cursor-pointer`}>
+        <input
+          type="checkbox"
+          checked={dimOthers}
+          onChange={(e) => onDimOthersChange(e.target.checked)}
+        />
+        Dim everything else
+      </label>
+
+      <div className="flex-1 overflow-y-auto p-3 pt-1">
+        {report.suspects.size === 0 ? (
+          <div className={`italic p-2 ${colors.textSecondary}`}>
+            Every node is referenced or reachable from an entry point
+          </div>
+        ) : (
+          <>
+            {report.unreferenced.length > 0 && (
+              <div className="mt-2">
+                <div className="font-medium">Unreferenced ({report.unreferenced.length})</div>
+                {report.unreferenced.map(renderNode)}
+              </div>
+            )}
+            {report.disconnected.map((component, index) => (
+              <div key={`component-${component[0]}`} className="mt-2">
+                <div className="font-medium">
+                  Disconnected component {index + 1} ({component.length})
+                </div>
+                {component.map(renderNode)}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      <div className={`p-3 border-t ${colors.border}`}>
+        <div className="flex gap-2 justify-between">
+          <button
+            onClick={() => downloadFile(formatDeadCodeReport(report, nodes, 'csv'), 'dead-code.csv', 'text/csv')}
+            className={`text-xs flex-1 px-3 py-2 rounded flex items-center justify-center gap-1 ${colors.button}`}
+            disabled={report.suspects.size === 0}
+          >
+            <Download className="w-3.5 h-3.5" />
+            Export CSV
+          </button>
+          <button
+            onClick={() => downloadFile(formatDeadCodeReport(report, nodes, 'json'), 'dead-code.json', 'application/json')}
+            className={`text-xs flex-1 px-3 py-2 rounded flex items-center justify-center gap-1 ${colors.button}`}
+            disabled={report.suspects.size === 0}
+          >
+            <Download className="w-3.5 h-3.5" />
+            Export JSON
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
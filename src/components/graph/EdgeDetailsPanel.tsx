@@ -0,0 +1,188 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, ArrowRight, LogIn, LogOut, PanelRight, PanelRightClose } from 'lucide-react';
+import { Edge, Node } from '../../types/graph';
+import { getEdgeMetadataEntries } from '../../utils/graph/edgeUtils';
+import { EdgeStyleMap, resolveEdgeStyle } from '../../utils/graph/edgeStyles';
+
+interface EdgeDetailsPanelProps {
+  edge: Edge | null;
+  sourceNode?: Node;
+  targetNode?: Node;
+  containerSize: { width: number; height: number };
+  theme: 'light' | 'dark';
+  edgeTypeStyles?: EdgeStyleMap;
+  onJumpToNode: (nodeId: string) => void;
+  onClose: () => void;
+  getNodeDisplayName: (node: Node) => string;
+}
+
+const PANEL_WIDTH = 320;
+
+/**
+ * Details of the selected edge. The panel floats and can be dragged by its
+ * header, or docked to the right side of the graph.
+ */
+export const EdgeDetailsPanel: React.FC<EdgeDetailsPanelProps> = ({
+  edge,
+  sourceNode,
+  targetNode,
+  containerSize,
+  theme,
+  edgeTypeStyles,
+  onJumpToNode,
+  onClose,
+  getNodeDisplayName
+}) => {
+  const [isDocked, setIsDocked] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [panelPosition, setPanelPosition] = useState({
+    x: Math.max(20, containerSize.width - PANEL_WIDTH - 20),
+    y: 80
+  });
+  const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Add and remove global event listeners while dragging
+  useEffect(() => {
+    if (!isDragging) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      setPanelPosition({
+        x: Math.max(0, Math.min(e.clientX - dragOffset.x, containerSize.width - PANEL_WIDTH)),
+        y: Math.max(0, Math.min(e.clientY - dragOffset.y, containerSize.height - 200))
+      });
+    };
+    const handleMouseUp = () => setIsDragging(false);
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragging, dragOffset, containerSize]);
+
+  if (!edge) return null;
+
+  // Only initiate drag from the header of a floating panel
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (isDocked || !(e.target as HTMLElement).closest('.panel-header')) return;
+    if ((e.target as HTMLElement).closest('button')) return;
+
+    const rect = panelRef.current?.getBoundingClientRect();
+    if (rect) {
+      setDragOffset({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    }
+    setIsDragging(true);
+
+    // Prevent text selection while dragging
+    e.preventDefault();
+  };
+
+  const colors = theme === 'dark'
+    ? {
+      panel: 'bg-gray-800 border-gray-700',
+      text: 'text-white',
+      textSecondary: 'text-gray-300',
+      hoverBg: 'hover:bg-gray-700',
+      itemBg: 'bg-gray-700/30',
+      button: 'bg-gray-700 hover:bg-gray-600 text-white',
+      border: 'border-gray-700'
+    }
+    : {
+      panel: 'bg-white border-gray-200',
+      text: 'text-gray-900',
+      textSecondary: 'text-gray-600',
+      hoverBg: 'hover:bg-gray-100',
+      itemBg: 'bg-gray-50/70',
+      button: 'bg-gray-100 hover:bg-gray-200 text-gray-700',
+      border: 'border-gray-200'
+    };
+
+  const style = resolveEdgeStyle(edge.type, theme, edgeTypeStyles);
+  const entries = getEdgeMetadataEntries(edge);
+  const sourceName = sourceNode ? getNodeDisplayName(sourceNode) : edge.source;
+  const targetName = targetNode ? getNodeDisplayName(targetNode) : edge.target;
+
+  return (
+    <div
+      ref={panelRef}
+      className={`fixed z-50 ${colors.panel} ${colors.text} backdrop-blur-md shadow-xl border overflow-hidden flex flex-col ${
+        isDocked ? 'top-0 right-0 h-full rounded-none' : 'max-h-[80vh] rounded-lg'
+      }`}
+      style={{
+        width: PANEL_WIDTH,
+        ...(isDocked ? {} : { left: panelPosition.x, top: panelPosition.y }),
+        userSelect: isDragging ? 'none' : 'auto'
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={handleMouseDown}
+    >
+      <div className={`p-3 flex items-center justify-between border-b ${colors.border} panel-header ${
+        isDocked ? '' : isDragging ? 'cursor-grabbing' : 'cursor-grab'
+      }`}>
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="inline-block w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: style.color }} />
+          <h3 className="font-medium text-base truncate">{edge.type || 'Edge'}</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setIsDocked(docked => !docked)}
+            className={`p-1 rounded-full ${colors.hoverBg}`}
+            aria-label={isDocked ? 'Undock panel' : 'Dock panel'}
+            title={isDocked ? 'Undock panel' : 'Dock panel'}
+          >
+            {isDocked ? <PanelRightClose className="w-4 h-4" /> : <PanelRight className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={onClose}
+            className={`p-1 rounded-full ${colors.hoverBg}`}
+            aria-label="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="px-3 py-2 flex items-center gap-2 text-sm">
+        <span className="truncate" title={sourceName}>{sourceName}</span>
+        <ArrowRight className={`w-4 h-4 shrink-0 ${colors.textSecondary}`} />
+        <span className="truncate" title={targetName}>{targetName}</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 pt-1">
+        {entries.length > 0 ? (
+          entries.map(entry => (
+            <div key={`edge-detail-${entry.key}`} className={`p-1.5 text-xs rounded my-1 ${colors.itemBg}`}>
+              <span className="font-medium">{entry.key}:</span>{' '}
+              <span className={`break-words ${colors.textSecondary}`}>{entry.value}</span>
+            </div>
+          ))
+        ) : (
+          <div className={`text-sm ${colors.textSecondary} italic p-2`}>
+            No additional details available
+          </div>
+        )}
+      </div>
+
+      <div className={`p-3 border-t ${colors.border}`}>
+        <div className="flex gap-2 justify-between">
+          <button
+            onClick={() => onJumpToNode(edge.source)}
+            className={`text-xs flex-1 px-3 py-2 rounded flex items-center justify-center gap-1 ${colors.button}`}
+          >
+            <LogOut className="w-3.5 h-3.5" />
+            Jump to source
+          </button>
+          <button
+            onClick={() => onJumpToNode(edge.target)}
+            className={`text-xs flex-1 px-3 py-2 rounded flex items-center justify-center gap-1 ${colors.button}`}
+          >
+            <LogIn className="w-3.5 h-3.5" />
+            Jump to target
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
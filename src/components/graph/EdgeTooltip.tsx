@@ -0,0 +1,63 @@
+import React from 'react';
+import { Edge } from '../../types/graph';
+import { getEdgeMetadataEntries } from '../../utils/graph/edgeUtils';
+
+interface EdgeTooltipProps {
+  edge: Edge;
+  position: { x: number; y: number };
+  theme: 'light' | 'dark';
+  scale: number;
+}
+
+const TOOLTIP_WIDTH = 220;
+const MAX_ENTRIES = 5;
+
+/**
+ * Edge tooltip showing the edge type and metadata on hover.
+ * Rendered inside the graph SVG, counter-scaled so it stays readable at any zoom.
+ */
+export const EdgeTooltip: React.FC<EdgeTooltipProps> = ({
+  edge,
+  position,
+  theme,
+  scale
+}) => {
+  const entries = getEdgeMetadataEntries(edge, MAX_ENTRIES);
+  const edgeType = edge.type || 'relates to';
+
+  return (
+    <foreignObject
+      x={-TOOLTIP_WIDTH / 2}
+      y={10}
+      width={TOOLTIP_WIDTH}
+      height={200}
+      transform={`translate(${position.x} ${position.y}) scale(${1 / scale})`}
+      className="overflow-visible pointer-events-none"
+    >
+      <div
+        className={`rounded-md shadow-lg px-3 py-2 text-sm ${
+          theme === 'dark' ? 'bg-gray-800 text-white' : 'bg-white text-gray-900 border border-gray-200'
+        }`}
+      >
+        <div className="font-medium">
+          {edgeType.charAt(0).toUpperCase() + edgeType.slice(1)} relationship
+        </div>
+
+        {entries.map(entry => (
+          <div
+            key={`edge-metadata-${entry.key}`}
+            className={`text-xs mt-1 truncate ${theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}
+          >
+            <span className="font-medium">{entry.key}:</span> {entry.value}
+          </div>
+        ))}
+
+        {entries.length === 0 && (
+          <div className={`text-xs mt-1 ${theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>
+            Connection from {edge.source} to {edge.target}
+          </div>
+        )}
+      </div>
+    </foreignObject>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ClusterBounds } from '../../utils/graph/clusterLayout';
+import { hashString } from '../../utils/graph/seededRandom';
+
+interface GraphClustersProps {
+  clusters: ClusterBounds[];
+  theme: 'light' | 'dark';
+}
+
+/**
+ * Labelled background rectangles for directory clusters
+ */
+export const GraphClusters: React.FC<GraphClustersProps> = ({
+  clusters,
+  theme
+}) => {
+  if (clusters.length === 0) return null;
+
+  const isDark = theme === 'dark';
+
+  return (
+    <g className="graph-clusters pointer-events-none">
+      {clusters.map(cluster => {
+        // Give every directory a stable hue of its own
+        const hue = hashString(cluster.id) % 360;
+        const fill = isDark ? `hsla(${hue}, 40%, 30%, 0.25)` : `hsla(${hue}, 70%, 92%, 0.6)`;
+        const stroke = isDark ? `hsla(${hue}, 40%, 55%, 0.6)` : `hsla(${hue}, 50%, 60%, 0.7)`;
+        const labelColor = isDark ? `hsl(${hue}, 50%, 75%)` : `hsl(${hue}, 50%, 35%)`;
+
+        return (
+          <g key={`cluster-${cluster.id}`} data-cluster={cluster.id}>
+            <rect
+              x={cluster.x}
+              y={cluster.y}
+              width={cluster.width}
+              height={cluster.height}
+              rx={12}
+              fill={fill}
+              stroke={stroke}
+              strokeWidth={1.5}
+              strokeDasharray="6 4"
+            />
+            <text
+              x={cluster.x + 12}
+              y={cluster.y + 20}
+              fill={labelColor}
+              className="select-none font-medium"
+              style={{ fontSize: '14px' }}
+            >
+              {cluster.label}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+};
@@ -1,10 +1,20 @@
 import React from 'react';
-import { ZoomIn, ZoomOut, Minimize } from 'lucide-react';
+import { ZoomIn, ZoomOut, Minimize, Undo2, Repeat, Boxes, ShieldAlert, Ghost } from 'lucide-react';
 
 interface GraphControlsProps {
   onZoomIn: () => void;
   onZoomOut: () => void;
   onResetView: () => void;
+  onExitFocus?: () => void;
+  onToggleCycles?: () => void;
+  isShowingCycles?: boolean;
+  onToggleCouplingReport?: () => void;
+  isShowingCouplingReport?: boolean;
+  onToggleViolations?: () => void;
+  isShowingViolations?: boolean;
+  violationCount?: number;
+  onToggleDeadCode?: () => void;
+  isShowingDeadCode?: boolean;
   theme: 'light' | 'dark';
 }
 
@@ -12,6 +22,16 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
   onZoomIn,
   onZoomOut,
   onResetView,
+  onExitFocus,
+  onToggleCycles,
+  isShowingCycles = false,
+  onToggleCouplingReport,
+  isShowingCouplingReport = false,
+  onToggleViolations,
+  isShowingViolations = false,
+  violationCount = 0,
+  onToggleDeadCode,
+  isShowingDeadCode = false,
   theme
 }) => {
   const colorStyles = theme === 'dark' 
@@ -45,6 +65,60 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
       >
         <Minimize className="w-5 h-5" />
       </button>
+      {onToggleCycles && (
+        <button 
+          onClick={onToggleCycles}
+          className={`p-1.5 rounded ${hoverStyles} ${isShowingCycles ? (theme === 'dark' ? 'bg-gray-700 text-rose-400' : 'bg-gray-100 text-rose-600') : ''}`}
+          title={isShowingCycles ? 'Hide cycles' : 'Show cycles'}
+          aria-pressed={isShowingCycles}
+        >
+          <Repeat className="w-5 h-5" />
+        </button>
+      )}
+      {onToggleCouplingReport && (
+        <button 
+          onClick={onToggleCouplingReport}
+          className={`p-1.5 rounded ${hoverStyles} ${isShowingCouplingReport ? (theme === 'dark' ? 'bg-gray-700' : 'bg-gray-100') : ''}`}
+          title={isShowingCouplingReport ? 'Hide module coupling' : 'Show module coupling'}
+          aria-pressed={isShowingCouplingReport}
+        >
+          <Boxes className="w-5 h-5" />
+        </button>
+      )}
+      {onToggleViolations && (
+        <button 
+          onClick={onToggleViolations}
+          className={`relative p-1.5 rounded ${hoverStyles} ${isShowingViolations ? (theme === 'dark' ? 'bg-gray-700' : 'bg-gray-100') : ''}`}
+          title={isShowingViolations ? 'Hide rule violations' : 'Show rule violations'}
+          aria-pressed={isShowingViolations}
+        >
+          <ShieldAlert className={`w-5 h-5 ${violationCount > 0 ? 'text-red-500' : ''}`} />
+          {violationCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+              {violationCount}
+            </span>
+          )}
+        </button>
+      )}
+      {onToggleDeadCode && (
+        <button 
+          onClick={onToggleDeadCode}
+          className={`p-1.5 rounded ${hoverStyles} ${isShowingDeadCode ? (theme === 'dark' ? 'bg-gray-700' : 'bg-gray-100') : ''}`}
+          title={isShowingDeadCode ? 'Hide dead code' : 'Show dead code'}
+          aria-pressed={isShowingDeadCode}
+        >
+          <Ghost className="w-5 h-5" />
+        </button>
+      )}
+      {onExitFocus && (
+        <button 
+          onClick={onExitFocus}
+          className={`p-1.5 rounded ${hoverStyles}`}
+          title="Exit radial view"
+        >
+          <Undo2 className="w-5 h-5" />
+        </button>
+      )}
     </div>
   );
 }; 
\ No newline at end of file
@@ -1,10 +1,67 @@
 import React from 'react';
+import {
+  EdgeMarkerShape,
+  EdgeStyleMap,
+  EDGE_MARKER_SHAPES,
+  EDGE_HIGHLIGHT_COLORS,
+  resolveEdgeStyle,
+  getEdgeTypeMarkerId,
+  getEdgeHighlightMarkerId,
+  getCycleMarkerId
+} from '../../utils/graph/edgeStyles';
 
 interface GraphDefsProps {
   theme: 'light' | 'dark';
+  edgeTypes?: string[];
+  edgeTypeStyles?: EdgeStyleMap;
+  /** Colors of the highlighted dependency cycles, by cycle index */
+  cycleColors?: string[];
 }
 
-export const GraphDefs: React.FC<GraphDefsProps> = ({ theme }) => {
+/**
+ * Render an edge end marker. Hollow shapes are filled with the background
+ * so the edge line doesn't show through them.
+ */
+function renderMarker(id: string, shape: EdgeMarkerShape, color: string, background: string) {
+  if (shape === 'none') return null;
+
+  const hollow = shape === 'hollowArrow' || shape === 'hollowDiamond';
+  const fill = hollow ? background : color;
+  const stroke = hollow ? color : 'none';
+
+  return (
+    <marker
+      key={id}
+      id={id}
+      markerWidth="10"
+      markerHeight="7"
+      refX="8"
+      refY="3.5"
+      orient="auto"
+      overflow="visible"
+    >
+      {shape === 'circle' ? (
+        <circle cx="5" cy="3.5" r="3" fill={fill} />
+      ) : (
+        <polygon
+          points={shape === 'diamond' || shape === 'hollowDiamond' ? '0 3.5, 5 0, 10 3.5, 5 7' : '0 0, 10 3.5, 0 7'}
+          fill={fill}
+          stroke={stroke}
+          strokeWidth={1}
+        />
+      )}
+    </marker>
+  );
+}
+
+export const GraphDefs: React.FC<GraphDefsProps> = ({
+  theme,
+  edgeTypes = [],
+  edgeTypeStyles,
+  cycleColors = []
+}) => {
+  const background = theme === 'dark' ? '#111827' : '#ffffff';
+
   return (
     <defs>
       <pattern 
@@ -21,45 +78,16 @@ export const GraphDefs: React.FC<GraphDefsProps> = ({ theme }) => {
         />
       </pattern>
       
-      <marker
-        id="arrowhead-default"
-        markerWidth="10"
-        markerHeight="7"
-        refX="8"
-        refY="3.5"
-        orient="auto"
-      >
-        <polygon
-          points="0 0, 10 3.5, 0 7"
-          className={`${theme === 'dark' ? 'fill-gray-400' : 'fill-gray-400'}`}
-        />
-      </marker>
-      <marker
-        id="arrowhead-highlighted"
-        markerWidth="10"
-        markerHeight="7"
-        refX="8"
-        refY="3.5"
-        orient="auto"
-      >
-        <polygon
-          points="0 0, 10 3.5, 0 7"
-          className="fill-blue-500"
-        />
-      </marker>
-      <marker
-        id="arrowhead-path"
-        markerWidth="10"
-        markerHeight="7"
-        refX="8"
-        refY="3.5"
-        orient="auto"
-      >
-        <polygon
-          points="0 0, 10 3.5, 0 7"
-          className="fill-green-500"
-        />
-      </marker>
+      {/* One marker per edge type, plus every shape in the highlight colors */}
+      {[undefined, ...edgeTypes].map(type => {
+        const style = resolveEdgeStyle(type, theme, edgeTypeStyles);
+        return renderMarker(getEdgeTypeMarkerId(type), style.marker, style.color, background);
+      })}
+      {EDGE_MARKER_SHAPES.flatMap(shape =>
+        (Object.keys(EDGE_HIGHLIGHT_COLORS) as Array<keyof typeof EDGE_HIGHLIGHT_COLORS>).map(variant =>
+          renderMarker(getEdgeHighlightMarkerId(shape, variant), shape, EDGE_HIGHLIGHT_COLORS[variant], background)))}
+      {cycleColors.flatMap((color, index) =>
+        EDGE_MARKER_SHAPES.map(shape => renderMarker(getCycleMarkerId(shape, index), shape, color, background)))}
     </defs>
   );
 }; 
\ No newline at end of file
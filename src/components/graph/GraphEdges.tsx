@@ -1,6 +1,31 @@
-import React, { useMemo } from 'react';
+import React, { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { Edge, Node } from '../../types/graph';
-import { calculateNodeIntersection } from '../../utils/graph/edgeUtils';
+import { routeEdge, routeSelfLoop, isNearOrthogonalRoute, EdgeStyle, EdgeAnchors, EdgeRoute } from '../../utils/graph/edgeRouting';
+import { getEdgeId, getEdgeLanes } from '../../utils/graph/edgeUtils';
+import { routeBundledEdge, BundlingHierarchy } from '../../utils/graph/edgeBundling';
+import { NODE_WIDTH, NODE_HEIGHT } from '../../utils/graphLayout';
+import { EdgeTooltip } from './EdgeTooltip';
+import {
+  EdgeStyleMap,
+  EdgeWeightScale,
+  EDGE_HIGHLIGHT_COLORS,
+  EDGE_VIOLATION_DASH_ARRAY,
+  createEdgeWidthScale,
+  resolveEdgeStyle,
+  getEdgeTypeMarkerId,
+  getEdgeHighlightMarkerId,
+  getCycleMarkerId
+} from '../../utils/graph/edgeStyles';
+
+// Dash and gap of the flow drawn along highlighted paths, in screen pixels
+const FLOW_DASH = 4;
+const FLOW_GAP = 8;
+
+interface RouteCache {
+  positions: Record<string, { x: number; y: number }>;
+  scales: Record<string, number> | null | undefined;
+  routes: Map<string, { key: string; route: EdgeRoute }>;
+}
 
 interface GraphEdgesProps {
   edges: Edge[];
@@ -14,6 +39,29 @@ interface GraphEdgesProps {
   theme: 'light' | 'dark';
   transform: { scale: number };
   onEdgeClick: (edge: Edge) => void;
+  edgeStyle?: EdgeStyle;
+  edgeTypeStyles?: EdgeStyleMap;
+  bundlingHierarchy?: BundlingHierarchy | null;
+  bundlingStrength?: number;
+  hoveredNodeId?: string | null;
+  edgeWeightScale?: EdgeWeightScale;
+  /** Measured vertical offsets of section item rows, by node id and item id */
+  itemAnchorOffsets?: Record<string, Record<string, number>>;
+  /** Animate dashes flowing from source to target along path-highlighted edges */
+  animateFlow?: boolean;
+  /** Speed of the flow in screen pixels per second */
+  flowSpeed?: number;
+  /** Index of the dependency cycle each edge belongs to, when cycles are shown */
+  cycleIndexByEdge?: Map<string, number> | null;
+  cycleColors?: string[];
+  /** Severity of edges breaking an architecture rule, by edge id */
+  violatingEdges?: Map<string, 'error' | 'warning'> | null;
+  /** When set, edges not between two of these nodes fade out */
+  dimmedExcept?: Set<string> | null;
+  /** Node positions are being animated, orthogonal edges skip avoiding nodes until they settle */
+  isAnimating?: boolean;
+  /** Size factors of nodes drawn larger or smaller than the others, e.g. when sized by a metric */
+  nodeScales?: Record<string, number> | null;
 }
 
 export const GraphEdges: React.FC<GraphEdgesProps> = ({
@@ -24,8 +72,25 @@ export const GraphEdges: React.FC<GraphEdgesProps> = ({
   highlightedPath,
   theme,
   transform,
-  onEdgeClick
+  onEdgeClick,
+  edgeStyle = 'straight',
+  edgeTypeStyles,
+  bundlingHierarchy,
+  bundlingStrength,
+  hoveredNodeId,
+  edgeWeightScale,
+  itemAnchorOffsets,
+  animateFlow = false,
+  flowSpeed = 40,
+  cycleIndexByEdge,
+  cycleColors = [],
+  violatingEdges,
+  dimmedExcept,
+  isAnimating = false,
+  nodeScales
 }) => {
+  const [hoveredEdgeId, setHoveredEdgeId] = useState<string | null>(null);
+
   // Filter valid edges - this is the key improvement to prevent dangling arrows
   const validEdges = useMemo(() => {
     return edges.filter(edge => {
@@ -39,14 +104,122 @@ export const GraphEdges: React.FC<GraphEdgesProps> = ({
     });
   }, [edges, nodePositions]);
 
+  // Weighted edges are drawn wider, on a scale across all edges
+  const getWeightedWidth = useMemo(
+    () => createEdgeWidthScale(edges, edgeWeightScale),
+    [edges, edgeWeightScale]
+  );
+
+  // Parallel and reciprocal edges are fanned out into lanes
+  const lanes = useMemo(() => getEdgeLanes(validEdges), [validEdges]);
+
+  // Size of a node's box, scaled for nodes drawn larger or smaller than the others
+  const getNodeSize = useCallback((id: string) => {
+    const scale = nodeSizeScale * (nodeScales?.[id] ?? 1);
+    return { width: NODE_WIDTH * scale, height: NODE_HEIGHT * scale };
+  }, [nodeSizeScale, nodeScales]);
+
+  // Routes of the last committed render, and the positions and scales they were
+  // computed for. Only updated after commit, so a discarded render can't leave
+  // routes for positions that were never shown.
+  const lastRoutingRef = useRef<RouteCache>({
+    positions: nodePositions,
+    scales: nodeScales,
+    routes: new Map()
+  });
+
+  // Route every edge once per layout change rather than on every hover or selection.
+  // Orthogonal routes search around nodes, so a route is reused unless its ends or
+  // a node near it moved, e.g. only the edges around a dragged node are searched again.
+  const routing = useMemo(() => {
+    const nodeSize = { width: NODE_WIDTH * nodeSizeScale, height: NODE_HEIGHT * nodeSizeScale };
+    const avoidNodes = edgeStyle === 'orthogonal' && !isAnimating;
+    const obstacles = avoidNodes
+      ? Object.entries(nodePositions).map(([id, position]) => ({ ...position, ...getNodeSize(id) }))
+      : [];
+
+    // Old and new centers of nodes that moved, resized, appeared or disappeared
+    const { positions: previousPositions, scales: previousScales, routes: previousRoutes } = lastRoutingRef.current;
+    const movedPoints: Array<{ x: number; y: number }> = [];
+    if (avoidNodes) {
+      new Set([...Object.keys(previousPositions), ...Object.keys(nodePositions)]).forEach(id => {
+        const before = previousPositions[id];
+        const after = nodePositions[id];
+        if (before && after && before.x === after.x && before.y === after.y &&
+          (previousScales?.[id] ?? 1) === (nodeScales?.[id] ?? 1)) return;
+        if (before) movedPoints.push(before);
+        if (after) movedPoints.push(after);
+      });
+    }
+
+    const nextRoutes = new Map<string, { key: string; route: EdgeRoute }>();
+
+    const routed = validEdges.map(edge => {
+      const edgeId = getEdgeId(edge);
+      const lane = lanes.get(edgeId) || 0;
+      const source = nodePositions[edge.source];
+      const target = nodePositions[edge.target];
+      if (edge.source === edge.target) {
+        return routeSelfLoop(source, getNodeSize(edge.source), lane);
+      }
+      const sizes = { source: getNodeSize(edge.source), target: getNodeSize(edge.target) };
+
+      // Edges between section items attach to the rows of those items
+      const anchors: EdgeAnchors | undefined = edge.sourceItemId || edge.targetItemId
+        ? {
+          sourceOffset: edge.sourceItemId ? itemAnchorOffsets?.[edge.source]?.[edge.sourceItemId] : undefined,
+          targetOffset: edge.targetItemId ? itemAnchorOffsets?.[edge.target]?.[edge.targetItemId] : undefined
+        }
+        : undefined;
+
+      const key = [
+        edgeStyle, avoidNodes, sizes.source.width, sizes.target.width, lane,
+        source.x, source.y, target.x, target.y, anchors?.sourceOffset, anchors?.targetOffset
+      ].join('|');
+      const cached = previousRoutes.get(edgeId);
+      const route = cached && cached.key === key &&
+        !movedPoints.some(point => isNearOrthogonalRoute(point, source, target, nodeSize))
+        ? cached.route
+        : routeEdge(edgeStyle, source, target, sizes, obstacles, lane, anchors);
+      nextRoutes.set(edgeId, { key, route });
+      return route;
+    });
+
+    return { routes: routed, cache: { positions: nodePositions, scales: nodeScales, routes: nextRoutes } };
+  }, [validEdges, lanes, nodePositions, nodeSizeScale, edgeStyle, itemAnchorOffsets, isAnimating, nodeScales, getNodeSize]);
+  const routes = routing.routes;
+
+  useLayoutEffect(() => {
+    lastRoutingRef.current = routing.cache;
+  }, [routing]);
+
+  // Bundled routes through the directory hierarchy, self-loops are never bundled
+  const bundledRoutes = useMemo(() => {
+    if (!bundlingHierarchy) return null;
+    return validEdges.map(edge => edge.source === edge.target
+      ? null
+      : routeBundledEdge(edge.source, edge.target, nodePositions, bundlingHierarchy,
+        { source: getNodeSize(edge.source), target: getNodeSize(edge.target) }, bundlingStrength));
+  }, [validEdges, nodePositions, bundlingHierarchy, bundlingStrength, getNodeSize]);
+
   // Return early if no valid edges
   if (validEdges.length === 0) {
     return null;
   }
 
+  // Edges of the hovered or selected node come out of their bundle so they can be followed
+  const getDisplayedRoute = (edge: Edge, index: number) => {
+    const isUnbundled = selectedNode?.id === edge.source || selectedNode?.id === edge.target ||
+      highlightedPath.edges.has(getEdgeId(edge)) ||
+      hoveredNodeId === edge.source || hoveredNodeId === edge.target;
+    return (!isUnbundled && bundledRoutes?.[index]) || routes[index];
+  };
+
+  const hoveredIndex = validEdges.findIndex(edge => getEdgeId(edge) === hoveredEdgeId);
+
   return (
     <>
-      {validEdges.map((edge) => {
+      {validEdges.map((edge, index) => {
         const sourcePos = nodePositions[edge.source];
         const targetPos = nodePositions[edge.target];
 
@@ -59,73 +232,97 @@ export const GraphEdges: React.FC<GraphEdgesProps> = ({
 
         const isHighlighted = selectedNode && 
           (selectedNode.id === edge.source || selectedNode.id === edge.target);
-        const isPathHighlighted = highlightedPath.edges.has(`${edge.source}-${edge.target}`);
-
-        const angle = Math.atan2(targetPos.y - sourcePos.y, targetPos.x - sourcePos.x);
-
-        // Calculate node dimensions - match these with your actual node size
-        const nodeWidth = 180 * nodeSizeScale; // Width of your node
-        const nodeHeight = 90 * nodeSizeScale;  // Height of your node (adjust based on actual dimensions)
-        
-        // Add some padding to prevent edges from exactly touching the borders
-        const sourcePadding = 5; 
-        const targetPadding = 6; // Slightly larger for arrowhead
-        
-        // Calculate start point (from source node border)
-        const sourceIntersection = calculateNodeIntersection(
-          sourcePos.x, sourcePos.y, nodeWidth, nodeHeight, angle, sourcePadding
-        );
-        
-        // Calculate end point (to target node border)
-        const targetIntersection = calculateNodeIntersection(
-          targetPos.x, targetPos.y, nodeWidth, nodeHeight, angle + Math.PI, targetPadding
-        );
-        
-        const startX = sourceIntersection.x;
-        const startY = sourceIntersection.y;
-        const endX = targetIntersection.x;
-        const endY = targetIntersection.y;
+        const isPathHighlighted = highlightedPath.edges.has(getEdgeId(edge));
 
-        let markerEnd = "url(#arrowhead-default)";
-        let strokeClass = theme === 'dark' ? 'stroke-gray-600' : 'stroke-gray-300';
-        let strokeWidth = 1.5;
+        const { path, labelPoint } = getDisplayedRoute(edge, index);
+
+        // Highlighted edges keep their dash pattern and marker shape, but not their color
+        const style = resolveEdgeStyle(edge.type, theme, edgeTypeStyles);
+        let markerId = getEdgeTypeMarkerId(edge.type);
+        let stroke = style.color;
+        const baseWidth = getWeightedWidth(edge) ?? style.width;
+        let strokeWidth = baseWidth;
+        const cycleIndex = cycleIndexByEdge?.get(getEdgeId(edge));
+        const violationSeverity = violatingEdges?.get(getEdgeId(edge));
+        let edgeDashArray = style.dashArray;
 
         if (isPathHighlighted) {
-          markerEnd = "url(#arrowhead-path)";
-          strokeClass = 'stroke-green-500';
-          strokeWidth = 2.5;
+          markerId = getEdgeHighlightMarkerId(style.marker, 'path');
+          stroke = EDGE_HIGHLIGHT_COLORS.path;
+          strokeWidth = Math.max(baseWidth, 2.5);
         } else if (isHighlighted) {
-          markerEnd = "url(#arrowhead-highlighted)";
-          strokeClass = 'stroke-blue-500';
-          strokeWidth = 2;
+          markerId = getEdgeHighlightMarkerId(style.marker, 'highlighted');
+          stroke = EDGE_HIGHLIGHT_COLORS.highlighted;
+          strokeWidth = Math.max(baseWidth, 2);
+        } else if (violationSeverity) {
+          const variant = violationSeverity === 'warning' ? 'violationWarning' : 'violation';
+          markerId = getEdgeHighlightMarkerId(style.marker, variant);
+          stroke = EDGE_HIGHLIGHT_COLORS[variant];
+          strokeWidth = Math.max(baseWidth, 2);
+          edgeDashArray = EDGE_VIOLATION_DASH_ARRAY;
+        } else if (cycleIndex !== undefined) {
+          markerId = getCycleMarkerId(style.marker, cycleIndex);
+          stroke = cycleColors[cycleIndex];
+          strokeWidth = Math.max(baseWidth, 2);
         }
+        const markerEnd = style.marker === 'none' ? undefined : `url(#${markerId})`;
+        // Dashes scale with the zoom level like the stroke width does
+        const dashArray = edgeDashArray
+          ?.split(/[\s,]+/)
+          .map(length => Number(length) / transform.scale)
+          .join(' ');
 
         // Add an edge ID for better debugging and identification
-        const edgeId = `edge-${edge.source}-${edge.target}`;
+        const edgeId = `edge-${getEdgeId(edge)}`;
 
         return (
           <g key={edgeId} 
              id={edgeId}
              data-source={edge.source}
              data-target={edge.target}
+             opacity={dimmedExcept && !(dimmedExcept.has(edge.source) && dimmedExcept.has(edge.target)) ? 0.15 : undefined}
+             onMouseEnter={() => setHoveredEdgeId(getEdgeId(edge))}
+             onMouseLeave={() => setHoveredEdgeId(current => current === getEdgeId(edge) ? null : current)}
              onClick={(e) => {
                e.stopPropagation();
                onEdgeClick(edge);
              }}>
-            <line
-              x1={startX}
-              y1={startY}
-              x2={endX}
-              y2={endY}
-              className={`${strokeClass} cursor-pointer transition-all duration-200`}
+            <path
+              d={path}
+              fill="none"
+              stroke={stroke}
+              strokeDasharray={dashArray}
+              className="cursor-pointer transition-all duration-200"
               strokeWidth={strokeWidth / transform.scale}
               markerEnd={markerEnd}
             />
+
+            {animateFlow && isPathHighlighted && (
+              <path
+                d={path}
+                fill="none"
+                stroke={theme === 'dark' ? '#dcfce7' : '#ffffff'}
+                strokeOpacity={0.9}
+                strokeWidth={strokeWidth / transform.scale}
+                strokeDasharray={`${FLOW_DASH / transform.scale} ${FLOW_GAP / transform.scale}`}
+                strokeLinecap="round"
+                className="pointer-events-none"
+              >
+                {/* Moving the dash offset back shifts the dashes towards the target */}
+                <animate
+                  attributeName="stroke-dashoffset"
+                  from={(FLOW_DASH + FLOW_GAP) / transform.scale}
+                  to={0}
+                  dur={`${(FLOW_DASH + FLOW_GAP) / Math.max(flowSpeed, 1)}s`}
+                  repeatCount="indefinite"
+                />
+              </path>
+            )}
             
             {(isHighlighted || isPathHighlighted) && edge.type && (
               <text
-                x={(startX + endX) / 2}
-                y={(startY + endY) / 2}
+                x={labelPoint.x}
+                y={labelPoint.y}
                 dy="-5"
                 textAnchor="middle"
                 className={`text-xs select-none pointer-events-none
@@ -136,17 +333,25 @@ export const GraphEdges: React.FC<GraphEdgesProps> = ({
               </text>
             )}
             
-            <line
-              x1={startX}
-              y1={startY}
-              x2={endX}
-              y2={endY}
+            <path
+              d={path}
+              fill="none"
               strokeWidth={10 / transform.scale}
               className="stroke-transparent cursor-pointer"
             />
           </g>
         );
       })}
+
+      {/* Drawn after all edges so it stays on top */}
+      {hoveredIndex >= 0 && (
+        <EdgeTooltip
+          edge={validEdges[hoveredIndex]}
+          position={getDisplayedRoute(validEdges[hoveredIndex], hoveredIndex).labelPoint}
+          theme={theme}
+          scale={transform.scale}
+        />
+      )}
     </>
   );
 }; 
\ No newline at end of file
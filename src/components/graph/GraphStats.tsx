@@ -1,5 +1,10 @@
 import React from 'react';
 import { GraphData } from '../../types/graph';
+import { EdgeStyleMap, resolveEdgeStyle, getEdgeTypeMarkerId } from '../../utils/graph/edgeStyles';
+import { DependencyCycle } from '../../utils/graph/cycles';
+
+// Cycles listed before the rest are summarised
+const MAX_LISTED_CYCLES = 8;
 
 interface GraphStatsProps {
   nodeStats: {
@@ -9,13 +14,24 @@ interface GraphStatsProps {
   data: GraphData;
   transform: { x: number; y: number; scale: number };
   theme: 'light' | 'dark';
+  edgeTypes?: string[];
+  edgeTypeStyles?: EdgeStyleMap;
+  /** Detected cycles, listed when cycles are shown */
+  cycles?: DependencyCycle[] | null;
+  cycleColors?: string[];
+  onCycleClick?: (cycle: DependencyCycle) => void;
 }
 
 export const GraphStats: React.FC<GraphStatsProps> = ({ 
   nodeStats,
   data,
   transform,
-  theme
+  theme,
+  edgeTypes = [],
+  edgeTypeStyles,
+  cycles,
+  cycleColors = [],
+  onCycleClick
 }) => {
   const colors = theme === 'dark' 
     ? {
@@ -29,6 +45,8 @@ export const GraphStats: React.FC<GraphStatsProps> = ({
         textSecondary: 'text-gray-600',
       };
 
+  const nodeNames = new Map(cycles ? data.nodes.map(node => [node.id, node.name || node.title || node.id]) : []);
+
   return (
     <div className={`fixed bottom-4 right-4 ${colors.panel} backdrop-blur-sm rounded-lg shadow-sm border p-2 text-xs ${colors.text}`}>
       <div className="flex gap-3 items-center flex-wrap">
@@ -53,6 +71,65 @@ export const GraphStats: React.FC<GraphStatsProps> = ({
           Total: {nodeStats.total}
         </div>
       </div>
+      {edgeTypes.length > 0 && (
+        <div className="flex gap-3 items-center flex-wrap mt-1">
+          {edgeTypes.map(type => {
+            const style = resolveEdgeStyle(type, theme, edgeTypeStyles);
+            return (
+              <div key={`edge-legend-${type}`} className="flex items-center gap-1">
+                {/* Sample line using the same marker as the edges in the graph */}
+                <svg width="28" height="8" className="overflow-visible">
+                  <line
+                    x1="1"
+                    y1="4"
+                    x2="20"
+                    y2="4"
+                    stroke={style.color}
+                    strokeWidth={style.width}
+                    strokeDasharray={style.dashArray}
+                    markerEnd={style.marker === 'none' ? undefined : `url(#${getEdgeTypeMarkerId(type)})`}
+                  />
+                </svg>
+                <span className={colors.textSecondary}>{type}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {cycles && (
+        <div className="mt-1 max-w-md">
+          {cycles.length === 0 ? (
+            <div className={colors.textSecondary}>No circular dependencies</div>
+          ) : (
+            <>
+              <div className="font-medium">Circular dependencies: {cycles.length}</div>
+              {cycles.slice(0, MAX_LISTED_CYCLES).map((cycle, index) => {
+                const names = cycle.nodes.map(id => nodeNames.get(id) || id);
+                // Close the loop so the list reads as a cycle
+                const label = [...names, names[0]].join(' → ');
+                return (
+                  <button
+                    key={cycle.id}
+                    onClick={() => onCycleClick?.(cycle)}
+                    className={`w-full flex items-center gap-2 text-left rounded px-1 ${
+                      theme === 'dark' ? 'hover:bg-gray-700' : 'hover:bg-gray-100'
+                    }`}
+                    title={label}
+                  >
+                    <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: cycleColors[index] }} />
+                    <span className={`truncate ${colors.textSecondary}`}>{label}</span>
+                  </button>
+                );
+              })}
+              {cycles.length > MAX_LISTED_CYCLES && (
+                <div className={colors.textSecondary}>
+                  +{cycles.length - MAX_LISTED_CYCLES} more
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
       <div className={`text-[10px] mt-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}`}>
         Project: {data.projectName || 'Unknown'} | 
         Language: {data.language || 'Unknown'} |
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface LayoutProgressProps {
+  isComputing: boolean;
+  progress: number;
+  theme: 'light' | 'dark';
+}
+
+/**
+ * Small indicator shown while a layout is being computed
+ */
+export const LayoutProgress: React.FC<LayoutProgressProps> = ({
+  isComputing,
+  progress,
+  theme
+}) => {
+  if (!isComputing) return null;
+
+  const colors = theme === 'dark'
+    ? {
+        panel: 'bg-gray-800/90 border-gray-700',
+        text: 'text-gray-300',
+        track: 'bg-gray-700',
+      }
+    : {
+        panel: 'bg-white/90 border-gray-100',
+        text: 'text-gray-600',
+        track: 'bg-gray-200',
+      };
+
+  return (
+    <div className={`fixed top-4 left-1/2 -translate-x-1/2 ${colors.panel} backdrop-blur-sm rounded-lg shadow-sm border px-3 py-2 text-xs ${colors.text}`}>
+      <div className="flex items-center gap-2">
+        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+        <span>Computing layout… {Math.round(progress * 100)}%</span>
+      </div>
+      <div className={`h-1 mt-1.5 rounded-full overflow-hidden ${colors.track}`}>
+        <div
+          className="h-full bg-blue-500 transition-all duration-200"
+          style={{ width: `${Math.round(progress * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+};
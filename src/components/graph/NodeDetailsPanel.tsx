@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { X, ArrowUpRight, ArrowDownRight, ChevronDown, ChevronRight } from 'lucide-react';
 import { Node } from '../../types/graph';
+import { DependencyExploration } from '../../utils/graph/traversal';
+import { NodeMetrics, METRIC_LABELS } from '../../utils/graph/metrics';
 
 interface NodeDetailsPanelProps {
   node: Node | null;
@@ -11,6 +13,14 @@ interface NodeDetailsPanelProps {
   onToggleSection: (sectionId: string, e: React.MouseEvent) => void;
   onShowDependencies: (node: Node) => void;
   onShowDependents: (node: Node) => void;
+  exploration?: DependencyExploration | null;
+  /** Depth of the full closure, the upper end of the depth slider */
+  explorationReach?: number;
+  /** Number of nodes reached at the current depth */
+  explorationCount?: number;
+  edgeTypes?: string[];
+  onExplorationChange?: (exploration: DependencyExploration) => void;
+  metrics?: NodeMetrics;
   onClose: () => void;
   getNodeDisplayName: (node: Node) => string;
   getNodeDisplayType: (node: Node) => string;
@@ -26,6 +36,12 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
   onToggleSection,
   onShowDependencies,
   onShowDependents,
+  exploration,
+  explorationReach = 0,
+  explorationCount = 0,
+  edgeTypes = [],
+  onExplorationChange,
+  metrics,
   onClose,
   getNodeDisplayName,
   getNodeDisplayType,
@@ -163,6 +179,19 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
       border: 'border-gray-200'
     };
 
+  // Toggling a type off when all are followed keeps every other type
+  const toggleExplorationEdgeType = (type: string) => {
+    if (!exploration || !onExplorationChange) return;
+    const current = new Set(exploration.edgeTypes ?? edgeTypes);
+    if (current.has(type)) {
+      current.delete(type);
+    } else {
+      current.add(type);
+    }
+    const allFollowed = edgeTypes.every(edgeType => current.has(edgeType));
+    onExplorationChange({ ...exploration, edgeTypes: allFollowed ? null : Array.from(current) });
+  };
+
   return (
     <div
       ref={panelRef}
@@ -212,6 +241,21 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
         )}
       </div>
 
+      {metrics && (
+        <div className="px-3 pb-2 grid grid-cols-3 gap-1 text-xs">
+          {(Object.keys(METRIC_LABELS) as Array<keyof NodeMetrics>).map(metric => (
+            <div key={metric} className={`rounded px-2 py-1 ${colors.itemBg}`}>
+              <div className={theme === 'dark' ? 'text-gray-400' : 'text-gray-500'}>{METRIC_LABELS[metric]}</div>
+              <div className="font-medium">
+                {metric === 'betweenness' || metric === 'pageRank'
+                  ? metrics[metric].toFixed(3)
+                  : metrics[metric]}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto p-3 pt-1">
         {node.sections && node.sections.length > 0 ? (
           node.sections.map(section => (
@@ -253,6 +297,55 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
         )}
       </div>
 
+      {exploration && onExplorationChange && (
+        <div className={`p-3 border-t ${colors.border} text-xs`}>
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium">
+              {exploration.direction === 'dependencies' ? 'Dependencies' : 'Dependents'}: {explorationCount}
+            </span>
+            <span className={theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}>
+              Depth {exploration.depth >= explorationReach ? 'all' : exploration.depth}
+            </span>
+          </div>
+          {explorationReach > 1 && (
+            <input
+              type="range"
+              min={1}
+              max={explorationReach}
+              value={Math.min(exploration.depth, explorationReach)}
+              onChange={(e) => {
+                const depth = Number(e.target.value);
+                // The last step follows the whole closure, even if it grows later
+                onExplorationChange({ ...exploration, depth: depth >= explorationReach ? Infinity : depth });
+              }}
+              className="w-full accent-green-500"
+              aria-label="Exploration depth"
+            />
+          )}
+          {edgeTypes.length > 1 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {edgeTypes.map(type => {
+                const isFollowed = !exploration.edgeTypes || exploration.edgeTypes.includes(type);
+                return (
+                  <button
+                    key={type}
+                    onClick={() => toggleExplorationEdgeType(type)}
+                    className={`px-2 py-0.5 rounded-full border ${
+                      isFollowed
+                        ? `bg-green-500/20 border-green-500 ${theme === 'dark' ? 'text-green-300' : 'text-green-700'}`
+                        : `${colors.border} opacity-60`
+                    }`}
+                    aria-pressed={isFollowed}
+                  >
+                    {type}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className={`p-3 border-t ${colors.border}`}>
         <div className="flex gap-2 justify-between">
           <button
@@ -0,0 +1,168 @@
+import React from 'react';
+import { X, ArrowLeftRight, Route } from 'lucide-react';
+import { GraphPath } from '../../utils/graph/pathFinding';
+
+export type PathFinderMode = 'shortest' | 'all';
+
+interface PathFinderPanelProps {
+  sourceId: string | null;
+  targetId: string | null;
+  paths: GraphPath[];
+  mode: PathFinderMode;
+  maxLength: number;
+  selectedPathIndex: number | null;
+  theme: 'light' | 'dark';
+  onModeChange: (mode: PathFinderMode) => void;
+  onMaxLengthChange: (maxLength: number) => void;
+  onSelectPath: (index: number | null) => void;
+  onSwap: () => void;
+  onClose: () => void;
+  getNodeName: (nodeId: string) => string;
+}
+
+/**
+ * Side panel of the path finder, listing the directed paths between the
+ * picked source and target nodes
+ */
+export const PathFinderPanel: React.FC<PathFinderPanelProps> = ({
+  sourceId,
+  targetId,
+  paths,
+  mode,
+  maxLength,
+  selectedPathIndex,
+  theme,
+  onModeChange,
+  onMaxLengthChange,
+  onSelectPath,
+  onSwap,
+  onClose,
+  getNodeName
+}) => {
+  if (!sourceId && !targetId) return null;
+
+  const colors = theme === 'dark'
+    ? {
+      panel: 'bg-gray-800 border-gray-700',
+      text: 'text-white',
+      textSecondary: 'text-gray-300',
+      hoverBg: 'hover:bg-gray-700',
+      itemBg: 'bg-gray-700/30',
+      selectedBg: 'bg-green-500/20 border-green-500',
+      border: 'border-gray-700',
+      toggle: 'bg-gray-700',
+      toggleActive: 'bg-gray-600 text-white'
+    }
+    : {
+      panel: 'bg-white border-gray-200',
+      text: 'text-gray-900',
+      textSecondary: 'text-gray-600',
+      hoverBg: 'hover:bg-gray-100',
+      itemBg: 'bg-gray-50/70',
+      selectedBg: 'bg-green-50 border-green-500',
+      border: 'border-gray-200',
+      toggle: 'bg-gray-100',
+      toggleActive: 'bg-white text-gray-900 shadow-sm'
+    };
+
+  const endpoint = (label: string, nodeId: string | null) => (
+    <div className="flex items-center gap-2 min-w-0">
+      <span className={`w-12 shrink-0 ${colors.textSecondary}`}>{label}</span>
+      <span className={`truncate ${nodeId ? '' : `italic ${colors.textSecondary}`}`}>
+        {nodeId ? getNodeName(nodeId) : 'Shift-click a node'}
+      </span>
+    </div>
+  );
+
+  return (
+    <div
+      className={`fixed top-4 left-4 z-40 w-[300px] max-h-[70vh] ${colors.panel} ${colors.text} backdrop-blur-md rounded-lg shadow-xl border overflow-hidden flex flex-col text-xs`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className={`p-3 flex items-center justify-between border-b ${colors.border}`}>
+        <div className="flex items-center gap-2">
+          <Route className="w-4 h-4" />
+          <h3 className="font-medium text-sm">Path finder</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className={`p-1 rounded-full ${colors.hoverBg}`}
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className={`p-3 flex items-center gap-2 border-b ${colors.border}`}>
+        <div className="flex-1 min-w-0 space-y-1">
+          {endpoint('From', sourceId)}
+          {endpoint('To', targetId)}
+        </div>
+        <button
+          onClick={onSwap}
+          className={`p-1 rounded-full ${colors.hoverBg}`}
+          aria-label="Swap source and target"
+          title="Swap source and target"
+        >
+          <ArrowLeftRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className={`p-3 flex items-center gap-2 border-b ${colors.border}`}>
+        <div className={`flex rounded p-0.5 ${colors.toggle}`}>
+          {(['shortest', 'all'] as PathFinderMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => onModeChange(option)}
+              className={`px-2 py-1 rounded ${mode === option ? colors.toggleActive : ''}`}
+            >
+              {option === 'shortest' ? 'Shortest' : 'All paths'}
+            </button>
+          ))}
+        </div>
+        {mode === 'all' && (
+          <label className={`flex items-center gap-1 ml-auto ${colors.textSecondary}`}>
+            Max length
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={maxLength}
+              onChange={(e) => onMaxLengthChange(Math.max(1, Number(e.target.value) || 1))}
+              className={`w-12 px-1 py-0.5 rounded border ${colors.border} bg-transparent`}
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 pt-1">
+        {sourceId && targetId ? (
+          paths.length > 0 ? (
+            paths.map((path, index) => (
+              <button
+                key={`path-${path.nodes.join('>')}`}
+                onClick={() => onSelectPath(selectedPathIndex === index ? null : index)}
+                className={`w-full text-left p-1.5 rounded my-1 border ${
+                  selectedPathIndex === index ? colors.selectedBg : `border-transparent ${colors.itemBg} ${colors.hoverBg}`
+                }`}
+              >
+                <span className="font-medium">{path.nodes.length - 1} {path.nodes.length === 2 ? 'hop' : 'hops'}:</span>{' '}
+                <span className={`break-words ${colors.textSecondary}`}>
+                  {path.nodes.map(getNodeName).join(' → ')}
+                </span>
+              </button>
+            ))
+          ) : (
+            <div className={`italic p-2 ${colors.textSecondary}`}>
+              {mode === 'all' ? `No path of up to ${maxLength} hops` : 'No path'} from source to target
+            </div>
+          )
+        ) : (
+          <div className={`italic p-2 ${colors.textSecondary}`}>
+            Pick a {sourceId ? 'target' : 'source'} node from its menu or with shift-click
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React from 'react';
+import { X, ShieldAlert } from 'lucide-react';
+import { Edge } from '../../types/graph';
+import { RuleViolation } from '../../utils/graph/architectureRules';
+
+interface RuleViolationsPanelProps {
+  violations: RuleViolation[];
+  theme: 'light' | 'dark';
+  selectedEdgeId?: string | null;
+  onViolationClick: (edge: Edge) => void;
+  onClose: () => void;
+  getNodeName: (nodeId: string) => string;
+}
+
+/**
+ * Edges breaking the architecture rules, grouped by rule
+ */
+export const RuleViolationsPanel: React.FC<RuleViolationsPanelProps> = ({
+  violations,
+  theme,
+  selectedEdgeId,
+  onViolationClick,
+  onClose,
+  getNodeName
+}) => {
+  const colors = theme === 'dark'
+    ? {
+      panel: 'bg-gray-800 border-gray-700',
+      text: 'text-white',
+      textSecondary: 'text-gray-300',
+      hoverBg: 'hover:bg-gray-700',
+      itemBg: 'bg-gray-700/30',
+      selectedBg: 'bg-red-500/20',
+      border: 'border-gray-700'
+    }
+    : {
+      panel: 'bg-white border-gray-200',
+      text: 'text-gray-900',
+      textSecondary: 'text-gray-600',
+      hoverBg: 'hover:bg-gray-100',
+      itemBg: 'bg-gray-50/70',
+      selectedBg: 'bg-red-50',
+      border: 'border-gray-200'
+    };
+
+  // Group by rule, keeping the order the rules were declared in
+  const byRule = new Map<string, RuleViolation[]>();
+  violations.forEach(violation => {
+    if (!byRule.has(violation.rule.id)) byRule.set(violation.rule.id, []);
+    byRule.get(violation.rule.id)!.push(violation);
+  });
+
+  return (
+    <div
+      className={`fixed bottom-4 left-4 z-40 w-[320px] max-h-[50vh] ${colors.panel} ${colors.text} backdrop-blur-md rounded-lg shadow-xl border overflow-hidden flex flex-col text-xs`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className={`p-3 flex items-center justify-between border-b ${colors.border}`}>
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="w-4 h-4 text-red-500" />
+          <h3 className="font-medium text-sm">Rule violations: {violations.length}</h3>
+        </div>
+        <button
+          onClick={onClose}
+          className={`p-1 rounded-full ${colors.hoverBg}`}
+          aria-label="Close"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 pt-1">
+        {violations.length === 0 ? (
+          <div className={`italic p-2 ${colors.textSecondary}`}>
+            All dependencies follow the rules
+          </div>
+        ) : (
+          Array.from(byRule, ([ruleId, ruleViolations]) => {
+            const rule = ruleViolations[0].rule;
+            const isWarning = rule.severity === 'warning';
+            return (
+              <div key={ruleId} className="mt-2">
+                <div className="flex items-center gap-2 font-medium">
+                  <span className={`px-1.5 rounded text-[10px] uppercase text-white ${isWarning ? 'bg-amber-500' : 'bg-red-500'}`}>
+                    {isWarning ? 'warning' : 'error'}
+                  </span>
+                  <span className="truncate" title={rule.description || rule.id}>{rule.description || rule.id}</span>
+                  <span className={`ml-auto ${colors.textSecondary}`}>{ruleViolations.length}</span>
+                </div>
+                {ruleViolations.map(violation => (
+                  <button
+                    key={`${ruleId}-${violation.edgeId}`}
+                    onClick={() => onViolationClick(violation.edge)}
+                    className={`w-full text-left p-1.5 rounded my-1 ${
+                      selectedEdgeId === violation.edgeId ? colors.selectedBg : `${colors.itemBg} ${colors.hoverBg}`
+                    }`}
+                  >
+                    <span className="break-words">
+                      {getNodeName(violation.edge.source)} → {getNodeName(violation.edge.target)}
+                    </span>
+                    {violation.edge.type && (
+                      <span className={colors.textSecondary}> ({violation.edge.type})</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,4 +3,12 @@ export { GraphControls } from './GraphControls';
 export { GraphStats } from './GraphStats';
 export { GraphEdges } from './GraphEdges';
 export { GraphDefs } from './GraphDefs';
-export { NodeDetailsPanel } from './NodeDetailsPanel'; 
\ No newline at end of file
+export { NodeDetailsPanel } from './NodeDetailsPanel';
+export { LayoutProgress } from './LayoutProgress';
+export { GraphClusters } from './GraphClusters';
+export { EdgeTooltip } from './EdgeTooltip';
+export { EdgeDetailsPanel } from './EdgeDetailsPanel';
+export { PathFinderPanel } from './PathFinderPanel';
+export { CouplingReportPanel } from './CouplingReportPanel';
+export { RuleViolationsPanel } from './RuleViolationsPanel';
+export { DeadCodePanel } from './DeadCodePanel';
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { GraphData } from '../types/graph';
+import { computeGraphMetrics, MetricsWorkerResponse, NodeMetrics } from '../utils/graph/metrics';
+
+/**
+ * Custom hook that computes node centrality in a Web Worker, falling back to
+ * the main thread when workers are unavailable or fail to load. Returns null
+ * while disabled; while a new graph is being measured the previous metrics
+ * are kept so sizes and colours don't flicker.
+ */
+export function useGraphMetrics(data: GraphData, enabled: boolean) {
+  const [metrics, setMetrics] = useState<Record<string, NodeMetrics> | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const workerFailedRef = useRef(false);
+  const requestIdRef = useRef(0);
+
+  // Lazily create the worker, or return null to compute synchronously
+  const getWorker = useCallback((): Worker | null => {
+    if (workerFailedRef.current || typeof Worker === 'undefined') return null;
+
+    if (!workerRef.current) {
+      try {
+        workerRef.current = new Worker(
+          new URL('../utils/metricsWorker.ts', import.meta.url),
+          { type: 'module' }
+        );
+      } catch (e) {
+        console.error('Failed to create metrics worker, using main thread:', e);
+        workerFailedRef.current = true;
+        return null;
+      }
+    }
+
+    return workerRef.current;
+  }, []);
+
+  // Terminate the worker on unmount
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  /**
+   * Start measuring a graph. Returns a function that cancels the run; a
+   * cancelled run never calls onComplete.
+   */
+  const runMetrics = useCallback((
+    graph: GraphData,
+    onComplete: (metrics: Record<string, NodeMetrics>) => void
+  ) => {
+    const requestId = ++requestIdRef.current;
+    let isDone = false;
+
+    const runSynchronously = () => {
+      isDone = true;
+      onComplete(computeGraphMetrics(graph));
+    };
+
+    const worker = getWorker();
+    if (!worker) {
+      runSynchronously();
+      return () => {};
+    }
+
+    const handleMessage = (event: MessageEvent<MetricsWorkerResponse>) => {
+      const message = event.data;
+      if (message.requestId !== requestId) return;
+
+      removeListeners();
+      if (message.type === 'result') {
+        isDone = true;
+        onComplete(message.metrics);
+      } else {
+        console.error('Metrics worker error, using main thread:', message.message);
+        runSynchronously();
+      }
+    };
+
+    // The worker script itself failed (e.g. blocked by CSP), stop using it
+    const handleError = (event: ErrorEvent) => {
+      console.error('Metrics worker failed, using main thread:', event.message);
+      removeListeners();
+      workerFailedRef.current = true;
+      worker.terminate();
+      if (workerRef.current === worker) {
+        workerRef.current = null;
+      }
+      runSynchronously();
+    };
+
+    const removeListeners = () => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+
+    try {
+      worker.postMessage({ type: 'metrics', requestId, nodes: graph.nodes, edges: graph.edges });
+    } catch (e) {
+      // Data that can't be cloned (e.g. functions in metadata) stays on the main thread
+      console.error('Failed to post metrics to worker, using main thread:', e);
+      removeListeners();
+      runSynchronously();
+      return () => {};
+    }
+
+    return () => {
+      if (isDone) return;
+      isDone = true;
+      removeListeners();
+
+      // A running calculation can't be interrupted, so replace the busy worker
+      worker.terminate();
+      if (workerRef.current === worker) {
+        workerRef.current = null;
+      }
+    };
+  }, [getWorker]);
+
+  // Graph the current metrics belong to, so toggling doesn't measure it again
+  const measuredDataRef = useRef<GraphData | null>(null);
+
+  useEffect(() => {
+    if (!enabled || measuredDataRef.current === data) return;
+    return runMetrics(data, (result) => {
+      measuredDataRef.current = data;
+      setMetrics(result);
+    });
+  }, [data, enabled, runMetrics]);
+
+  return enabled ? metrics : null;
+}
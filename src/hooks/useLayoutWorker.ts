@@ -0,0 +1,137 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { computeLayout, canRunInWorker, LayoutRequest, LayoutWorkerResponse } from '../utils/layoutEngine';
+
+/**
+ * Custom hook that computes layouts in a Web Worker, falling back to the
+ * main thread when workers are unavailable or fail to load. Custom layouts
+ * always run on the main thread.
+ */
+export function useLayoutWorker() {
+  const [isComputing, setIsComputing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const workerRef = useRef<Worker | null>(null);
+  const workerFailedRef = useRef(false);
+  const requestIdRef = useRef(0);
+
+  // Lazily create the worker, or return null to compute synchronously
+  const getWorker = useCallback((): Worker | null => {
+    if (workerFailedRef.current || typeof Worker === 'undefined') return null;
+
+    if (!workerRef.current) {
+      try {
+        workerRef.current = new Worker(
+          new URL('../utils/layoutWorker.ts', import.meta.url),
+          { type: 'module' }
+        );
+      } catch (e) {
+        console.error('Failed to create layout worker, using main thread:', e);
+        workerFailedRef.current = true;
+        return null;
+      }
+    }
+
+    return workerRef.current;
+  }, []);
+
+  // Terminate the worker on unmount
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  /**
+   * Start a layout run. Returns a function that cancels the run; a cancelled
+   * run never calls onComplete.
+   */
+  const runLayout = useCallback((
+    request: LayoutRequest,
+    onComplete: (positions: Record<string, { x: number; y: number }>) => void
+  ) => {
+    const requestId = ++requestIdRef.current;
+    let isDone = false;
+
+    setIsComputing(true);
+    setProgress(0);
+
+    const finish = (positions: Record<string, { x: number; y: number }>) => {
+      isDone = true;
+      setIsComputing(false);
+      setProgress(1);
+      onComplete(positions);
+    };
+
+    const runSynchronously = () => {
+      finish(computeLayout(request));
+    };
+
+    const { layout } = request;
+    const worker = canRunInWorker(layout) ? getWorker() : null;
+    if (!worker) {
+      runSynchronously();
+      return () => {};
+    }
+
+    const handleMessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+      const message = event.data;
+      if (message.requestId !== requestId) return;
+
+      if (message.type === 'progress') {
+        setProgress(message.progress);
+      } else if (message.type === 'result') {
+        removeListeners();
+        finish(message.positions);
+      } else {
+        console.error('Layout worker error, using main thread:', message.message);
+        removeListeners();
+        runSynchronously();
+      }
+    };
+
+    // The worker script itself failed (e.g. blocked by CSP), stop using it
+    const handleError = (event: ErrorEvent) => {
+      console.error('Layout worker failed, using main thread:', event.message);
+      removeListeners();
+      workerFailedRef.current = true;
+      worker.terminate();
+      if (workerRef.current === worker) {
+        workerRef.current = null;
+      }
+      runSynchronously();
+    };
+
+    const removeListeners = () => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+
+    try {
+      worker.postMessage({ type: 'layout', requestId, ...request, layout });
+    } catch (e) {
+      // Data that can't be cloned (e.g. functions in metadata) stays on the main thread
+      console.error('Failed to post layout to worker, using main thread:', e);
+      removeListeners();
+      runSynchronously();
+      return () => {};
+    }
+
+    return () => {
+      if (isDone) return;
+      isDone = true;
+      removeListeners();
+      setIsComputing(false);
+
+      // A running layout can't be interrupted, so replace the busy worker
+      worker.terminate();
+      if (workerRef.current === worker) {
+        workerRef.current = null;
+      }
+    };
+  }, [getWorker]);
+
+  return { runLayout, isComputing, progress };
+}
@@ -0,0 +1,81 @@
+import { useRef, useEffect, useCallback, useState } from 'react';
+import { prefersReducedMotion } from './useReducedMotion';
+
+type Positions = Record<string, { x: number; y: number }>;
+
+export type EasingFunction = (t: number) => number;
+export type EasingName = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+const EASINGS: Record<EasingName, EasingFunction> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - Math.pow(1 - t, 3),
+  easeInOut: t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+};
+
+/**
+ * Custom hook that interpolates node positions between two layouts.
+ * Starting a new animation cancels the one in progress. With a zero duration
+ * or when the user prefers reduced motion, positions are applied immediately.
+ */
+export function usePositionAnimation(
+  onFrame: (positions: Positions) => void,
+  duration: number = 600,
+  easing: EasingName | EasingFunction = 'easeInOut'
+) {
+  const frameRef = useRef<number | null>(null);
+  const [isAnimating, setIsAnimating] = useState(false);
+
+  // Settings live in a ref so animatePositions stays stable across renders
+  const settingsRef = useRef({ onFrame, duration, easing });
+  useEffect(() => {
+    settingsRef.current = { onFrame, duration, easing };
+  }, [onFrame, duration, easing]);
+
+  const cancelAnimation = useCallback(() => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    setIsAnimating(false);
+  }, []);
+
+  // Stop animating on unmount
+  useEffect(() => cancelAnimation, [cancelAnimation]);
+
+  const animatePositions = useCallback((from: Positions, to: Positions) => {
+    cancelAnimation();
+    const { onFrame, duration, easing } = settingsRef.current;
+
+    if (duration <= 0 || prefersReducedMotion()) {
+      onFrame(to);
+      return;
+    }
+
+    const ease = typeof easing === 'function' ? easing : EASINGS[easing];
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = Math.min((now - start) / duration, 1);
+      const eased = ease(t);
+
+      // Nodes without a previous position appear at their target right away
+      const frame: Positions = {};
+      Object.entries(to).forEach(([id, target]) => {
+        const origin = from[id] || target;
+        frame[id] = {
+          x: origin.x + (target.x - origin.x) * eased,
+          y: origin.y + (target.y - origin.y) * eased
+        };
+      });
+      onFrame(t < 1 ? frame : to);
+
+      frameRef.current = t < 1 ? requestAnimationFrame(step) : null;
+      if (t >= 1) setIsAnimating(false);
+    };
+
+    setIsAnimating(true);
+    frameRef.current = requestAnimationFrame(step);
+  }, [cancelAnimation]);
+
+  return { animatePositions, cancelAnimation, isAnimating };
+}
@@ -14,6 +14,24 @@ export * from './types/graph';
 // Utilities
 export * from './utils/graph/nodeStyles';
 export * from './utils/graphLayout';
+export * from './utils/graph/layeredLayout';
+export * from './utils/layoutEngine';
+export * from './utils/graph/seededRandom';
+export * from './utils/graph/overlapRemoval';
+export * from './utils/graph/clusterLayout';
+export * from './utils/graph/radialLayout';
+export * from './utils/graph/pathUtils';
+export * from './utils/graph/edgeUtils';
+export * from './utils/graph/edgeRouting';
+export * from './utils/graph/edgeStyles';
+export * from './utils/graph/edgeBundling';
+export * from './utils/graph/traversal';
+export * from './utils/graph/cycles';
+export * from './utils/graph/pathFinding';
+export * from './utils/graph/metrics';
+export * from './utils/graph/coupling';
+export * from './utils/graph/architectureRules';
+export * from './utils/graph/deadCode';
 
 // Utility exports
 export { 
@@ -13103,6 +13103,7 @@ export const djangoProjectSample: GraphData = {
     {
       "source": "django_model_blog_Post",
       "target": "django_model_blog_Tag",
+      "sourceItemId": "field_Post_tags",
       "type": "manytomanyfield",
       "metadata": {
         "field_name": "tags",
@@ -13112,6 +13113,7 @@ export const djangoProjectSample: GraphData = {
     {
       "source": "django_model_blog_Comment",
       "target": "django_model_blog_Post",
+      "sourceItemId": "field_Comment_post",
       "type": "foreignkey",
       "metadata": {
         "field_name": "post",
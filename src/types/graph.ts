@@ -37,9 +37,17 @@ export interface Node {
    * Generic Edge interface for connections between nodes
    */
   export interface Edge {
+    /** Unique edge id, derived from source, target and type when omitted */
+    id?: string;
     source: string;
     target: string;
+    /** Section item the edge starts from, e.g. the field holding a foreign key */
+    sourceItemId?: string;
+    /** Section item the edge points to */
+    targetItemId?: string;
     type?: string;
+    /** Strength of the connection, e.g. number of imports. Falls back to `metadata.weight` */
+    weight?: number;
     metadata?: Record<string, any>;
   }
   
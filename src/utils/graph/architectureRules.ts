@@ -0,0 +1,122 @@
+import { Edge, GraphData, Node } from '../../types/graph';
+import { getEdgeId } from './edgeUtils';
+import { getNodeDirectory, getNodeFilePath } from './pathUtils';
+
+/**
+ * Nodes a rule applies to. Every given field has to match, and a field
+ * with several patterns matches when any of them does.
+ */
+export interface NodeSelector {
+  /** Globs on the file path, or the directory or package path of nodes without a file, e.g. `components/**` */
+  path?: string | string[];
+  /** Globs on the node type, e.g. `model` */
+  type?: string | string[];
+  /** Globs on the node name or title, e.g. `*Service` */
+  name?: string | string[];
+}
+
+/**
+ * A forbidden dependency: nodes matching `from` must not depend on nodes matching `to`
+ */
+export interface ArchitectureRule {
+  id: string;
+  description?: string;
+  from: NodeSelector;
+  to: NodeSelector;
+  /** Edge types the rule checks, all types by default */
+  edgeTypes?: string[];
+  severity?: 'error' | 'warning';
+}
+
+export interface RuleViolation {
+  rule: ArchitectureRule;
+  edge: Edge;
+  edgeId: string;
+}
+
+/**
+ * Convert a glob to a regular expression. `**` matches any number of path
+ * segments, `*` anything within a segment and `?` one character.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "a/**" also matches "a" itself, "**/b" also matches "b"
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern = pattern.endsWith('/') ? `${pattern.slice(0, -1)}(?:/.*)?` : `${pattern}.*`;
+        i += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function toPatterns(value: string | string[] | undefined): RegExp[] | null {
+  if (value === undefined) return null;
+  return (Array.isArray(value) ? value : [value]).map(globToRegExp);
+}
+
+/**
+ * Create a predicate testing nodes against a selector
+ */
+export function createNodeMatcher(selector: NodeSelector): (node: Node) => boolean {
+  const paths = toPatterns(selector.path);
+  const types = toPatterns(selector.type);
+  const names = toPatterns(selector.name);
+
+  return node => {
+    if (paths) {
+      const path = getNodeFilePath(node) || getNodeDirectory(node);
+      if (!paths.some(pattern => pattern.test(path))) return false;
+    }
+    if (types) {
+      const type = node.type || '';
+      if (!types.some(pattern => pattern.test(type))) return false;
+    }
+    if (names) {
+      const name = node.name || node.title || '';
+      if (!names.some(pattern => pattern.test(name))) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Check every edge against the rules. An edge breaking several rules is
+ * reported once per rule.
+ */
+export function evaluateArchitectureRules(
+  data: Pick<GraphData, 'nodes' | 'edges'>,
+  rules: ArchitectureRule[]
+): RuleViolation[] {
+  const nodesById = new Map(data.nodes.map(node => [node.id, node]));
+  const violations: RuleViolation[] = [];
+
+  rules.forEach(rule => {
+    const matchesFrom = createNodeMatcher(rule.from);
+    const matchesTo = createNodeMatcher(rule.to);
+    const edgeTypes = rule.edgeTypes ? new Set(rule.edgeTypes) : null;
+
+    data.edges.forEach(edge => {
+      if (edgeTypes && !(edge.type && edgeTypes.has(edge.type))) return;
+      const source = nodesById.get(edge.source);
+      const target = nodesById.get(edge.target);
+      if (source && target && matchesFrom(source) && matchesTo(target)) {
+        violations.push({ rule, edge, edgeId: getEdgeId(edge) });
+      }
+    });
+  });
+
+  return violations;
+}
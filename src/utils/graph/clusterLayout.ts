@@ -0,0 +1,311 @@
+import { Node, Edge } from '../../types/graph';
+import { DEFAULT_NODE_SIZE, BaseLayoutOptions } from '../graphLayout';
+import { getNodeDirectory } from './pathUtils';
+import { createSeededRandom, getLayoutSeed } from './seededRandom';
+
+/**
+ * Options for the directory cluster layout
+ */
+export interface ClusterLayoutOptions extends BaseLayoutOptions {
+  /** Only use the first N directory segments, e.g. 1 groups `components/ui` into `components` */
+  clusterDepth?: number;
+  /** Space between a cluster's border and its nodes */
+  clusterPadding?: number;
+  /** Minimum space kept between clusters */
+  clusterSpacing?: number;
+  /** Space between nodes inside a cluster */
+  clusterNodeSpacing?: number;
+}
+
+/**
+ * A directory cluster as drawn behind its nodes
+ */
+export interface ClusterBounds {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  nodeIds: string[];
+}
+
+const DEFAULT_CLUSTER_OPTIONS: Required<Omit<ClusterLayoutOptions, keyof BaseLayoutOptions>> = {
+  clusterDepth: Infinity,
+  clusterPadding: 30,
+  clusterSpacing: 80,
+  clusterNodeSpacing: 30
+};
+
+/**
+ * Height reserved at the top of each cluster for its label
+ */
+export const CLUSTER_LABEL_HEIGHT = 28;
+
+/**
+ * Get the display label of a cluster id
+ */
+export function getClusterLabel(clusterId: string): string {
+  return clusterId || '(root)';
+}
+
+/**
+ * Group nodes by directory, keeping the order the nodes appear in
+ */
+export function groupNodesByDirectory(nodes: Node[], depth: number = Infinity): Map<string, Node[]> {
+  const clusters = new Map<string, Node[]>();
+  nodes.forEach(node => {
+    const directory = getNodeDirectory(node, depth);
+    if (!clusters.has(directory)) {
+      clusters.set(directory, []);
+    }
+    clusters.get(directory)!.push(node);
+  });
+  return clusters;
+}
+
+interface ClusterBox {
+  id: string;
+  nodes: Node[];
+  columns: number;
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+/**
+ * Number of leading directory segments two clusters share
+ */
+function sharedDepth(a: string, b: string): number {
+  const aSegments = a ? a.split('/') : [];
+  const bSegments = b ? b.split('/') : [];
+  let depth = 0;
+  while (depth < aSegments.length && depth < bSegments.length && aSegments[depth] === bSegments[depth]) {
+    depth++;
+  }
+  return depth;
+}
+
+/**
+ * Create a layout that groups nodes into clusters by directory.
+ *
+ * Nodes are arranged in a grid inside their cluster. Clusters are then placed
+ * with a small force simulation where clusters attract each other by the number
+ * of edges between them and by how much of their directory path they share,
+ * followed by a pass that pushes overlapping cluster boxes apart.
+ */
+export function createClusterLayout(
+  nodes: Node[],
+  center: { x: number, y: number },
+  _availableSpace: { width: number, height: number },
+  edges: Edge[] = [],
+  options: ClusterLayoutOptions = {},
+  nodeSize: { width: number; height: number } = DEFAULT_NODE_SIZE
+): Record<string, { x: number; y: number }> {
+  const settings = { ...DEFAULT_CLUSTER_OPTIONS, ...options };
+  if (nodes.length === 0) return {};
+
+  const random = createSeededRandom(getLayoutSeed(nodes, options.seed));
+  const cellWidth = nodeSize.width + settings.clusterNodeSpacing;
+  const cellHeight = nodeSize.height + settings.clusterNodeSpacing;
+
+  const clusters: ClusterBox[] = Array.from(groupNodesByDirectory(nodes, settings.clusterDepth))
+    .map(([id, clusterNodes]) => {
+      const columns = Math.ceil(Math.sqrt(clusterNodes.length));
+      const rows = Math.ceil(clusterNodes.length / columns);
+      return {
+        id,
+        nodes: clusterNodes,
+        columns,
+        width: columns * cellWidth - settings.clusterNodeSpacing + settings.clusterPadding * 2,
+        height: rows * cellHeight - settings.clusterNodeSpacing + settings.clusterPadding * 2 + CLUSTER_LABEL_HEIGHT,
+        x: 0,
+        y: 0,
+        vx: 0,
+        vy: 0
+      };
+    });
+
+  const clusterIndexByNode = new Map<string, number>();
+  clusters.forEach((cluster, i) => cluster.nodes.forEach(node => clusterIndexByNode.set(node.id, i)));
+
+  // Attraction between clusters: cross-cluster edges plus shared directory depth
+  const weights = new Map<string, number>();
+  const addWeight = (a: number, b: number, weight: number) => {
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    weights.set(key, (weights.get(key) || 0) + weight);
+  };
+  edges.forEach(edge => {
+    const source = clusterIndexByNode.get(edge.source);
+    const target = clusterIndexByNode.get(edge.target);
+    if (source !== undefined && target !== undefined && source !== target) {
+      addWeight(source, target, 1);
+    }
+  });
+  for (let a = 0; a < clusters.length; a++) {
+    for (let b = a + 1; b < clusters.length; b++) {
+      const depth = sharedDepth(clusters[a].id, clusters[b].id);
+      if (depth > 0) addWeight(a, b, depth * 0.5);
+    }
+  }
+  const links = Array.from(weights.entries()).map(([key, weight]) => {
+    const [a, b] = key.split(':').map(Number);
+    return { a, b, weight };
+  });
+  const maxWeight = Math.max(1, ...links.map(link => link.weight));
+
+  const radius = (cluster: ClusterBox) => Math.sqrt(cluster.width * cluster.width + cluster.height * cluster.height) / 2;
+
+  // Start on a phyllotaxis spiral, rotated by the seed
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  const rotation = random() * 2 * Math.PI;
+  const meanRadius = clusters.reduce((sum, cluster) => sum + radius(cluster), 0) / clusters.length;
+  clusters.forEach((cluster, i) => {
+    const r = meanRadius * Math.sqrt(i + 0.5) * 1.5;
+    cluster.x = r * Math.cos(rotation + i * goldenAngle);
+    cluster.y = r * Math.sin(rotation + i * goldenAngle);
+  });
+
+  const iterations = 300;
+  for (let tick = 0; tick < iterations; tick++) {
+    const alpha = 1 - tick / iterations;
+
+    links.forEach(({ a, b, weight }) => {
+      const ca = clusters[a];
+      const cb = clusters[b];
+      const dx = cb.x - ca.x || (random() - 0.5) * 1e-3;
+      const dy = cb.y - ca.y || (random() - 0.5) * 1e-3;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      const rest = radius(ca) + radius(cb) + settings.clusterSpacing;
+      const force = (distance - rest) / distance * alpha * 0.3 * (weight / maxWeight);
+      ca.vx += dx * force;
+      ca.vy += dy * force;
+      cb.vx -= dx * force;
+      cb.vy -= dy * force;
+    });
+
+    clusters.forEach(cluster => {
+      cluster.vx -= cluster.x * 0.02 * alpha;
+      cluster.vy -= cluster.y * 0.02 * alpha;
+    });
+
+    // Circular collision keeps clusters from passing through each other
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const ca = clusters[a];
+        const cb = clusters[b];
+        const dx = (cb.x + cb.vx) - (ca.x + ca.vx) || (random() - 0.5) * 1e-3;
+        const dy = (cb.y + cb.vy) - (ca.y + ca.vy) || (random() - 0.5) * 1e-3;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const minDistance = radius(ca) + radius(cb) + settings.clusterSpacing / 2;
+        if (distance >= minDistance) continue;
+        const push = (minDistance - distance) / distance * 0.5;
+        ca.vx -= dx * push;
+        ca.vy -= dy * push;
+        cb.vx += dx * push;
+        cb.vy += dy * push;
+      }
+    }
+
+    clusters.forEach(cluster => {
+      cluster.vx *= 0.6;
+      cluster.vy *= 0.6;
+      cluster.x += cluster.vx;
+      cluster.y += cluster.vy;
+    });
+  }
+
+  // Collision on circles leaves rectangles either overlapping or far apart,
+  // so finish by separating the actual boxes
+  for (let pass = 0; pass < 100; pass++) {
+    let moved = false;
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const ca = clusters[a];
+        const cb = clusters[b];
+        const dx = cb.x - ca.x;
+        const dy = cb.y - ca.y;
+        const overlapX = (ca.width + cb.width) / 2 + settings.clusterSpacing - Math.abs(dx);
+        const overlapY = (ca.height + cb.height) / 2 + settings.clusterSpacing - Math.abs(dy);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+        moved = true;
+        if (overlapX < overlapY) {
+          const shift = (dx >= 0 ? 1 : -1) * overlapX / 2;
+          ca.x -= shift;
+          cb.x += shift;
+        } else {
+          const shift = (dy >= 0 ? 1 : -1) * overlapY / 2;
+          ca.y -= shift;
+          cb.y += shift;
+        }
+      }
+    }
+    if (!moved) break;
+  }
+
+  // Lay out nodes in a grid inside each cluster, centered on the drawing
+  const minX = Math.min(...clusters.map(c => c.x - c.width / 2));
+  const maxX = Math.max(...clusters.map(c => c.x + c.width / 2));
+  const minY = Math.min(...clusters.map(c => c.y - c.height / 2));
+  const maxY = Math.max(...clusters.map(c => c.y + c.height / 2));
+  const offsetX = center.x - (minX + maxX) / 2;
+  const offsetY = center.y - (minY + maxY) / 2;
+
+  const positions: Record<string, { x: number; y: number }> = {};
+  clusters.forEach(cluster => {
+    const left = cluster.x - cluster.width / 2 + settings.clusterPadding;
+    const top = cluster.y - cluster.height / 2 + settings.clusterPadding + CLUSTER_LABEL_HEIGHT;
+    cluster.nodes.forEach((node, i) => {
+      const column = i % cluster.columns;
+      const row = Math.floor(i / cluster.columns);
+      positions[node.id] = {
+        x: left + column * cellWidth + nodeSize.width / 2 + offsetX,
+        y: top + row * cellHeight + nodeSize.height / 2 + offsetY
+      };
+    });
+  });
+
+  return positions;
+}
+
+/**
+ * Compute the background rectangle of every directory cluster from the
+ * current node positions, so clusters follow nodes when they are dragged
+ */
+export function computeClusterBounds(
+  nodes: Node[],
+  positions: Record<string, { x: number; y: number }>,
+  nodeSize: { width: number; height: number },
+  options: Pick<ClusterLayoutOptions, 'clusterDepth' | 'clusterPadding'> = {}
+): ClusterBounds[] {
+  const depth = options.clusterDepth ?? DEFAULT_CLUSTER_OPTIONS.clusterDepth;
+  const padding = options.clusterPadding ?? DEFAULT_CLUSTER_OPTIONS.clusterPadding;
+  const bounds: ClusterBounds[] = [];
+
+  groupNodesByDirectory(nodes, depth).forEach((clusterNodes, id) => {
+    const placed = clusterNodes.filter(node => positions[node.id]);
+    if (placed.length === 0) return;
+
+    const xs = placed.map(node => positions[node.id].x);
+    const ys = placed.map(node => positions[node.id].y);
+    const left = Math.min(...xs) - nodeSize.width / 2 - padding;
+    const right = Math.max(...xs) + nodeSize.width / 2 + padding;
+    const top = Math.min(...ys) - nodeSize.height / 2 - padding - CLUSTER_LABEL_HEIGHT;
+    const bottom = Math.max(...ys) + nodeSize.height / 2 + padding;
+
+    bounds.push({
+      id,
+      label: getClusterLabel(id),
+      x: left,
+      y: top,
+      width: right - left,
+      height: bottom - top,
+      nodeIds: placed.map(node => node.id)
+    });
+  });
+
+  return bounds;
+}
@@ -0,0 +1,129 @@
+import { GraphData, Node } from '../../types/graph';
+import { getNodeDirectory, getNodeFilePath } from './pathUtils';
+
+/**
+ * Coupling metrics of one module (directory or Java package)
+ */
+export interface ModuleCoupling {
+  module: string;
+  /** Ids of the nodes in the module */
+  nodes: string[];
+  /** Number of type nodes (classes, interfaces, models...) in the module */
+  typeCount: number;
+  abstractCount: number;
+  /** Ca: number of nodes outside the module that depend on a node inside it */
+  afferent: number;
+  /** Ce: number of nodes inside the module that depend on a node outside it */
+  efferent: number;
+  /** I = Ce / (Ca + Ce), 0 for a module nothing depends on and that depends on nothing */
+  instability: number;
+  /** A = abstract types / all types */
+  abstractness: number;
+  /** D = |A + I - 1|, how far the module is from the main sequence */
+  distance: number;
+}
+
+export interface CouplingOptions {
+  /** Number of directory or package segments that make up a module */
+  depth?: number;
+  /** Edge types that aren't dependencies, like directories containing files */
+  excludeEdgeTypes?: string[];
+}
+
+// Label of nodes outside any directory or package
+export const ROOT_MODULE = '(root)';
+
+// Node types that declare a type, the only ones that count towards abstractness
+const TYPE_NODE_TYPES = ['class', 'interface', 'enum', 'record', 'trait', 'struct', 'type', 'model'];
+
+/**
+ * Module a node belongs to: its directory when it has a file path,
+ * otherwise its Java package, falling back to the other location hints
+ */
+export function getNodeModule(node: Node, depth: number = Infinity): string {
+  if (!getNodeFilePath(node) && typeof node.metadata?.packageName === 'string') {
+    const segments = node.metadata.packageName.split('.');
+    return (Number.isFinite(depth) ? segments.slice(0, Math.max(depth, 1)) : segments).join('.') || ROOT_MODULE;
+  }
+  return getNodeDirectory(node, depth) || ROOT_MODULE;
+}
+
+/**
+ * Compute afferent and efferent coupling, instability, abstractness and
+ * distance from the main sequence for every module, most unstable first.
+ *
+ * Couplings count nodes, each standing for a class, rather than modules.
+ * Abstractness only considers type nodes (see TYPE_NODE_TYPES), so apps,
+ * directories or views don't dilute it. Abstract types are abstract classes
+ * and interfaces, including types listed in another node's `interfaces`.
+ */
+export function computeCouplingReport(
+  data: Pick<GraphData, 'nodes' | 'edges'>,
+  options: CouplingOptions = {}
+): ModuleCoupling[] {
+  const { depth = Infinity, excludeEdgeTypes = ['contains'] } = options;
+  const excluded = new Set(excludeEdgeTypes);
+
+  const implementedInterfaces = new Set<string>();
+  data.nodes.forEach(node => {
+    const interfaces = node.metadata?.interfaces;
+    if (Array.isArray(interfaces)) interfaces.forEach(name => implementedInterfaces.add(String(name)));
+  });
+
+  const isAbstract = (node: Node) =>
+    node.metadata?.isAbstract === true ||
+    node.metadata?.isInterface === true ||
+    node.type?.toLowerCase() === 'interface' ||
+    (typeof node.metadata?.fullName === 'string' && implementedInterfaces.has(node.metadata.fullName));
+
+  const typeNodeTypes = new Set(TYPE_NODE_TYPES);
+  const isType = (node: Node) => isAbstract(node) || typeNodeTypes.has(node.type?.toLowerCase() ?? '');
+
+  const moduleOf = new Map<string, string>();
+  const modules = new Map<string, {
+    nodes: string[];
+    typeCount: number;
+    abstractCount: number;
+    outsideDependents: Set<string>;
+    dependentNodes: Set<string>;
+  }>();
+  data.nodes.forEach(node => {
+    const module = getNodeModule(node, depth);
+    moduleOf.set(node.id, module);
+    if (!modules.has(module)) {
+      modules.set(module, { nodes: [], typeCount: 0, abstractCount: 0, outsideDependents: new Set(), dependentNodes: new Set() });
+    }
+    const entry = modules.get(module)!;
+    entry.nodes.push(node.id);
+    if (isType(node)) entry.typeCount++;
+    if (isAbstract(node)) entry.abstractCount++;
+  });
+
+  // Edges point from the dependent to its dependency
+  data.edges.forEach(edge => {
+    if (edge.type && excluded.has(edge.type)) return;
+    const source = moduleOf.get(edge.source);
+    const target = moduleOf.get(edge.target);
+    if (source === undefined || target === undefined || source === target) return;
+    modules.get(source)!.dependentNodes.add(edge.source);
+    modules.get(target)!.outsideDependents.add(edge.source);
+  });
+
+  return Array.from(modules, ([module, entry]) => {
+    const afferent = entry.outsideDependents.size;
+    const efferent = entry.dependentNodes.size;
+    const instability = afferent + efferent > 0 ? efferent / (afferent + efferent) : 0;
+    const abstractness = entry.typeCount > 0 ? entry.abstractCount / entry.typeCount : 0;
+    return {
+      module,
+      nodes: entry.nodes,
+      typeCount: entry.typeCount,
+      abstractCount: entry.abstractCount,
+      afferent,
+      efferent,
+      instability,
+      abstractness,
+      distance: Math.abs(abstractness + instability - 1)
+    };
+  }).sort((a, b) => b.instability - a.instability || a.module.localeCompare(b.module));
+}
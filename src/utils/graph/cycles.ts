@@ -0,0 +1,110 @@
+import { Edge } from '../../types/graph';
+import { getEdgeId } from './edgeUtils';
+
+/**
+ * A strongly connected component with more than one node, or a node that
+ * depends on itself. Every node in it can reach every other node.
+ */
+export interface DependencyCycle {
+  id: string;
+  /** Node ids, in the order they were found walking the edges */
+  nodes: string[];
+  /** Ids of the edges between nodes of the cycle */
+  edges: string[];
+}
+
+/**
+ * Find circular dependencies with Tarjan's strongly connected components
+ * algorithm. Cycles are sorted largest first, then by their first node id.
+ */
+export function findCycles(edges: Edge[]): DependencyCycle[] {
+  const outgoing = new Map<string, string[]>();
+  const vertices = new Set<string>();
+  edges.forEach(edge => {
+    vertices.add(edge.source);
+    vertices.add(edge.target);
+    if (!outgoing.has(edge.source)) outgoing.set(edge.source, []);
+    outgoing.get(edge.source)!.push(edge.target);
+  });
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const componentStack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  vertices.forEach(root => {
+    if (index.has(root)) return;
+
+    // Iterative depth-first search, so long dependency chains can't overflow the call stack
+    const stack: Array<{ vertex: string; next: number }> = [{ vertex: root, next: 0 }];
+    index.set(root, counter);
+    lowLink.set(root, counter++);
+    componentStack.push(root);
+    onStack.add(root);
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const neighbours = outgoing.get(frame.vertex) || [];
+
+      if (frame.next < neighbours.length) {
+        const target = neighbours[frame.next++];
+        if (!index.has(target)) {
+          index.set(target, counter);
+          lowLink.set(target, counter++);
+          componentStack.push(target);
+          onStack.add(target);
+          stack.push({ vertex: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.vertex, Math.min(lowLink.get(frame.vertex)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      // All neighbours visited: pop a component if this vertex is its root
+      stack.pop();
+      if (stack.length > 0) {
+        const parent = stack[stack.length - 1].vertex;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.vertex)!));
+      }
+      if (lowLink.get(frame.vertex) === index.get(frame.vertex)) {
+        const component: string[] = [];
+        let vertex: string;
+        do {
+          vertex = componentStack.pop()!;
+          onStack.delete(vertex);
+          component.push(vertex);
+        } while (vertex !== frame.vertex);
+        components.push(component.reverse());
+      }
+    }
+  });
+
+  const componentOf = new Map<string, number>();
+  components.forEach((component, i) => component.forEach(id => componentOf.set(id, i)));
+
+  const componentEdges = components.map(() => [] as string[]);
+  edges.forEach(edge => {
+    const component = componentOf.get(edge.source)!;
+    if (component === componentOf.get(edge.target)) {
+      componentEdges[component].push(getEdgeId(edge));
+    }
+  });
+
+  // Single nodes only form a cycle when they have an edge to themselves
+  return components
+    .map((nodes, i) => ({ nodes, edges: componentEdges[i] }))
+    .filter(({ nodes, edges }) => nodes.length > 1 || edges.length > 0)
+    .sort((a, b) => b.nodes.length - a.nodes.length || a.nodes[0].localeCompare(b.nodes[0]))
+    .map((cycle, i) => ({ id: `cycle-${i}`, ...cycle }));
+}
+
+/**
+ * Color of the cycle at an index. Hues are spread by the golden angle so
+ * neighbouring cycles in the list are easy to tell apart.
+ */
+export function getCycleColor(index: number, theme: 'light' | 'dark'): string {
+  const hue = Math.round((index * 137.508 + 10) % 360);
+  return theme === 'dark' ? `hsl(${hue}, 75%, 60%)` : `hsl(${hue}, 75%, 45%)`;
+}
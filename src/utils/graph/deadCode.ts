@@ -0,0 +1,134 @@
+import { GraphData, Node } from '../../types/graph';
+import { createNodeMatcher, NodeSelector } from './architectureRules';
+import { getNodeFilePath } from './pathUtils';
+
+/**
+ * Nodes that are used from outside the analyzed code: framework routes,
+ * application roots and scripts
+ */
+export const DEFAULT_ENTRY_POINTS: NodeSelector[] = [
+  // Next.js app router and common application roots
+  { path: ['**/page.*', '**/layout.*', '**/route.*', '**/middleware.*', '**/main.*', '**/index.*', '**/App.*'] },
+  // Django, where views are reached through URL patterns the graph rarely contains
+  { path: ['**/urls.py', '**/manage.py', '**/settings.py', '**/wsgi.py', '**/asgi.py', '**/admin.py'] },
+  { type: ['view'] },
+  { type: ['app'] },
+  // Java and Spring Boot entry classes
+  { name: ['Main', '*Application'] }
+];
+
+export interface DeadCodeOptions {
+  entryPoints?: NodeSelector[];
+  /** Edge types that don't count as a reference, like directories containing files */
+  excludeEdgeTypes?: string[];
+}
+
+export interface DeadCodeReport {
+  /** Nodes that nothing references and that aren't entry points */
+  unreferenced: string[];
+  /** Groups of connected nodes without an entry point, unreachable from the rest of the graph */
+  disconnected: string[][];
+  /** Every suspect node, from either list */
+  suspects: Set<string>;
+}
+
+/**
+ * Find likely dead code: unreferenced nodes and connected components that
+ * no entry point belongs to. Edge direction is ignored for components. When
+ * the graph has no entry points, or they are all isolated nodes (e.g. a
+ * `Main` class whose calls the graph doesn't contain), every component except
+ * the largest is reported.
+ */
+export function findDeadCode(
+  data: Pick<GraphData, 'nodes' | 'edges'>,
+  options: DeadCodeOptions = {}
+): DeadCodeReport {
+  const { entryPoints = DEFAULT_ENTRY_POINTS, excludeEdgeTypes = ['contains'] } = options;
+  const excluded = new Set(excludeEdgeTypes);
+  const matchers = entryPoints.map(createNodeMatcher);
+  const isEntryPoint = (node: Node) => matchers.some(matches => matches(node));
+
+  const nodeIds = new Set(data.nodes.map(node => node.id));
+  const referenced = new Set<string>();
+  const neighbours = new Map<string, string[]>(data.nodes.map(node => [node.id, []]));
+
+  // Excluded edges aren't references, but still connect their nodes
+  data.edges.forEach(edge => {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) return;
+    if (edge.source !== edge.target && !(edge.type && excluded.has(edge.type))) referenced.add(edge.target);
+    neighbours.get(edge.source)!.push(edge.target);
+    neighbours.get(edge.target)!.push(edge.source);
+  });
+
+  const entryIds = new Set(data.nodes.filter(isEntryPoint).map(node => node.id));
+  const unreferenced = data.nodes
+    .filter(node => !referenced.has(node.id) && !entryIds.has(node.id))
+    .map(node => node.id);
+
+  // Weakly connected components
+  const components: string[][] = [];
+  const visited = new Set<string>();
+  data.nodes.forEach(node => {
+    if (visited.has(node.id)) return;
+    const component = [node.id];
+    visited.add(node.id);
+    for (let i = 0; i < component.length; i++) {
+      neighbours.get(component[i])!.forEach(next => {
+        if (!visited.has(next)) {
+          visited.add(next);
+          component.push(next);
+        }
+      });
+    }
+    components.push(component);
+  });
+
+  let disconnected = components.filter(component => !component.some(id => entryIds.has(id)));
+  const hasConnectedEntryPoint = components.some(component =>
+    component.length > 1 && component.some(id => entryIds.has(id)));
+  if (!hasConnectedEntryPoint && disconnected.length > 0) {
+    const largest = disconnected.reduce((best, component) => component.length > best.length ? component : best);
+    disconnected = disconnected.filter(component => component !== largest);
+  }
+
+  return {
+    unreferenced,
+    disconnected,
+    suspects: new Set([...unreferenced, ...disconnected.flat()])
+  };
+}
+
+/**
+ * Format the suspects of a report as CSV or JSON, one entry per node with
+ * the reasons it was flagged
+ */
+export function formatDeadCodeReport(
+  report: DeadCodeReport,
+  nodes: Node[],
+  format: 'csv' | 'json' = 'csv'
+): string {
+  const unreferenced = new Set(report.unreferenced);
+  const componentOf = new Map<string, number>();
+  report.disconnected.forEach((component, i) => component.forEach(id => componentOf.set(id, i)));
+
+  const rows = nodes
+    .filter(node => report.suspects.has(node.id))
+    .map(node => ({
+      id: node.id,
+      name: node.name || node.title || node.id,
+      type: node.type || '',
+      path: getNodeFilePath(node),
+      reasons: [
+        ...(unreferenced.has(node.id) ? ['unreferenced'] : []),
+        ...(componentOf.has(node.id) ? [`disconnected component ${componentOf.get(node.id)! + 1}`] : [])
+      ]
+    }));
+
+  if (format === 'json') return JSON.stringify(rows, null, 2);
+
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [
+    'id,name,type,path,reasons',
+    ...rows.map(row => [row.id, row.name, row.type, row.path, row.reasons.join('; ')].map(escape).join(','))
+  ].join('\n');
+}
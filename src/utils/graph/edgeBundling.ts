@@ -0,0 +1,144 @@
+import { Node } from '../../types/graph';
+import { getNodeDirectory } from './pathUtils';
+import { calculateNodeIntersection } from './edgeUtils';
+import { EdgeRoute, EdgeEndSizes, getEdgeEndSizes, getPolylineMidpoint } from './edgeRouting';
+
+type Point = { x: number; y: number };
+
+/**
+ * Directory hierarchy used to bundle edges, with the mean position of the
+ * nodes below every directory
+ */
+export interface BundlingHierarchy {
+  /** Directory of each node */
+  directoryOf: Map<string, string>;
+  /** Centroid of each directory, including all ancestors and the root ('') */
+  centroids: Map<string, Point>;
+}
+
+/**
+ * All ancestors of a directory from the root down, including the directory itself
+ */
+function getDirectoryChain(directory: string): string[] {
+  const segments = directory ? directory.split('/') : [];
+  return ['', ...segments.map((_, i) => segments.slice(0, i + 1).join('/'))];
+}
+
+/**
+ * Build the directory hierarchy for the current node positions
+ */
+export function buildBundlingHierarchy(
+  nodes: Node[],
+  positions: Record<string, { x: number; y: number }>,
+  depth: number = Infinity
+): BundlingHierarchy {
+  const directoryOf = new Map<string, string>();
+  const sums = new Map<string, { x: number; y: number; count: number }>();
+
+  nodes.forEach(node => {
+    const position = positions[node.id];
+    if (!position) return;
+
+    const directory = getNodeDirectory(node, depth);
+    directoryOf.set(node.id, directory);
+    getDirectoryChain(directory).forEach(ancestor => {
+      const sum = sums.get(ancestor) || { x: 0, y: 0, count: 0 };
+      sum.x += position.x;
+      sum.y += position.y;
+      sum.count++;
+      sums.set(ancestor, sum);
+    });
+  });
+
+  const centroids = new Map<string, Point>();
+  sums.forEach((sum, directory) => {
+    centroids.set(directory, { x: sum.x / sum.count, y: sum.y / sum.count });
+  });
+
+  return { directoryOf, centroids };
+}
+
+/**
+ * Smooth path through control points as a uniform cubic B-spline,
+ * starting and ending exactly at the first and last point
+ */
+function toBasisPath(points: Point[]): string {
+  if (points.length < 3) {
+    return points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+  }
+
+  let [p0, p1] = points;
+  const commands = [
+    `M ${p0.x} ${p0.y}`,
+    `L ${(5 * p0.x + p1.x) / 6} ${(5 * p0.y + p1.y) / 6}`
+  ];
+  const segment = (next: Point) => {
+    commands.push(`C ${(2 * p0.x + p1.x) / 3} ${(2 * p0.y + p1.y) / 3}, ` +
+      `${(p0.x + 2 * p1.x) / 3} ${(p0.y + 2 * p1.y) / 3}, ` +
+      `${(p0.x + 4 * p1.x + next.x) / 6} ${(p0.y + 4 * p1.y + next.y) / 6}`);
+    p0 = p1;
+    p1 = next;
+  };
+
+  points.slice(2).forEach(segment);
+  segment(p1);
+  commands.push(`L ${p1.x} ${p1.y}`);
+
+  return commands.join(' ');
+}
+
+/**
+ * Route an edge along the directory hierarchy (hierarchical edge bundling).
+ *
+ * The edge passes through the centroids of the directories between its
+ * endpoints and their closest common directory, so edges between the same
+ * parts of the tree share a path. `strength` (0 to 1) controls how tightly
+ * edges follow the hierarchy; 0 draws them straight.
+ */
+export function routeBundledEdge(
+  sourceId: string,
+  targetId: string,
+  positions: Record<string, { x: number; y: number }>,
+  hierarchy: BundlingHierarchy,
+  nodeSize: { width: number; height: number } | EdgeEndSizes,
+  strength: number = 0.85
+): EdgeRoute {
+  const sizes = getEdgeEndSizes(nodeSize);
+  const source = positions[sourceId];
+  const target = positions[targetId];
+  const sourceChain = getDirectoryChain(hierarchy.directoryOf.get(sourceId) ?? '');
+  const targetChain = getDirectoryChain(hierarchy.directoryOf.get(targetId) ?? '');
+
+  let common = 0;
+  while (common + 1 < sourceChain.length && common + 1 < targetChain.length &&
+    sourceChain[common + 1] === targetChain[common + 1]) {
+    common++;
+  }
+
+  // Up from the source to the common directory, then down to the target
+  const directories = [
+    ...sourceChain.slice(common).reverse(),
+    ...targetChain.slice(common + 1)
+  ];
+  const controls = [source, ...directories.map(directory => hierarchy.centroids.get(directory)!), target];
+
+  // Pull the control points towards the straight line to loosen the bundles
+  const last = controls.length - 1;
+  const straightened = controls.map((point, i) => ({
+    x: strength * point.x + (1 - strength) * (source.x + (target.x - source.x) * i / last),
+    y: strength * point.y + (1 - strength) * (source.y + (target.y - source.y) * i / last)
+  }));
+
+  // Start and end on the node borders, leaving room for the arrowhead
+  const first = straightened[1];
+  const beforeLast = straightened[last - 1];
+  straightened[0] = calculateNodeIntersection(source.x, source.y, sizes.source.width, sizes.source.height,
+    Math.atan2(first.y - source.y, first.x - source.x), 5);
+  straightened[last] = calculateNodeIntersection(target.x, target.y, sizes.target.width, sizes.target.height,
+    Math.atan2(beforeLast.y - target.y, beforeLast.x - target.x), 6);
+
+  return {
+    path: toBasisPath(straightened),
+    labelPoint: getPolylineMidpoint(straightened)
+  };
+}
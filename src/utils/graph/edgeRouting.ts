@@ -0,0 +1,490 @@
+import { calculateNodeIntersection } from './edgeUtils';
+
+export type EdgeStyle = 'straight' | 'bezier' | 'orthogonal';
+
+type Point = { x: number; y: number };
+type Size = { width: number; height: number };
+
+/**
+ * Sizes of both ends of an edge, for nodes drawn at different sizes
+ */
+export interface EdgeEndSizes {
+  source: Size;
+  target: Size;
+}
+
+/**
+ * A node routes go around, at its own size or the default node size
+ */
+export type RouteObstacle = Point & Partial<Size>;
+
+interface Box {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Vertical offsets from the node centers of the section item rows an edge
+ * attaches to. Edges with anchors always leave and enter through the sides.
+ */
+export interface EdgeAnchors {
+  sourceOffset?: number;
+  targetOffset?: number;
+}
+
+/**
+ * A routed edge: the SVG path plus a point to anchor its label on
+ */
+export interface EdgeRoute {
+  path: string;
+  labelPoint: Point;
+}
+
+// Space kept between orthogonal routes and node borders
+const ROUTE_MARGIN = 16;
+
+// Extra cost per bend so routes prefer fewer corners over slightly shorter paths
+const BEND_PENALTY = 40;
+
+// Larger neighbourhoods make the routing grid too big to search per edge
+const MAX_OBSTACLES = 40;
+
+// Distance between neighbouring lanes of parallel edges
+const LANE_SPACING = 28;
+
+const boxOf = (center: Point, size: Size, inflate: number = 0): Box => ({
+  left: center.x - size.width / 2 - inflate,
+  right: center.x + size.width / 2 + inflate,
+  top: center.y - size.height / 2 - inflate,
+  bottom: center.y + size.height / 2 + inflate
+});
+
+const isInside = (point: Point, box: Box) =>
+  point.x > box.left && point.x < box.right && point.y > box.top && point.y < box.bottom;
+
+// Axis-aligned segment against a box interior
+const segmentHitsBox = (a: Point, b: Point, box: Box) => {
+  if (a.x === b.x) {
+    return a.x > box.left && a.x < box.right &&
+      Math.max(a.y, b.y) > box.top && Math.min(a.y, b.y) < box.bottom;
+  }
+  return a.y > box.top && a.y < box.bottom &&
+    Math.max(a.x, b.x) > box.left && Math.min(a.x, b.x) < box.right;
+};
+
+/**
+ * Point halfway along a polyline, used to place edge labels
+ */
+export function getPolylineMidpoint(points: Point[]): Point {
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  let remaining = lengths.reduce((sum, l) => sum + l, 0) / 2;
+
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * t,
+        y: points[i].y + (points[i + 1].y - points[i].y) * t
+      };
+    }
+    remaining -= lengths[i];
+  }
+
+  return points[points.length - 1];
+}
+
+// Drop points in the middle of straight runs so only corners remain
+const removeCollinear = (points: Point[]) => points.filter((p, index) => {
+  if (index === 0 || index === points.length - 1) return true;
+  const before = points[index - 1];
+  const after = points[index + 1];
+  return !((before.x === p.x && p.x === after.x) || (before.y === p.y && p.y === after.y));
+});
+
+const toPath = (points: Point[]) =>
+  points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+
+/**
+ * Source and target sizes from either one size for both ends or a size per end
+ */
+export function getEdgeEndSizes(nodeSize: Size | EdgeEndSizes): EdgeEndSizes {
+  return 'source' in nodeSize ? nodeSize : { source: nodeSize, target: nodeSize };
+}
+
+/**
+ * Straight segment between the borders of both node boxes, bent into a
+ * curve when the edge is moved off-centre into another lane
+ */
+function routeStraight(
+  source: Point,
+  target: Point,
+  sizes: EdgeEndSizes,
+  offset: number
+): EdgeRoute {
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+
+  if (offset === 0) {
+    const angle = Math.atan2(dy, dx);
+
+    // Add some padding to prevent edges from exactly touching the borders,
+    // slightly larger at the target for the arrowhead
+    const start = calculateNodeIntersection(source.x, source.y, sizes.source.width, sizes.source.height, angle, 5);
+    const end = calculateNodeIntersection(target.x, target.y, sizes.target.width, sizes.target.height, angle + Math.PI, 6);
+
+    return {
+      path: toPath([start, end]),
+      labelPoint: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }
+    };
+  }
+
+  // A quadratic curve peaks halfway to its control point
+  const length = Math.hypot(dx, dy) || 1;
+  const control = {
+    x: (source.x + target.x) / 2 - dy / length * offset * 2,
+    y: (source.y + target.y) / 2 + dx / length * offset * 2
+  };
+  const start = calculateNodeIntersection(source.x, source.y, sizes.source.width, sizes.source.height,
+    Math.atan2(control.y - source.y, control.x - source.x), 5);
+  const end = calculateNodeIntersection(target.x, target.y, sizes.target.width, sizes.target.height,
+    Math.atan2(control.y - target.y, control.x - target.x), 6);
+
+  return {
+    path: `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`,
+    labelPoint: {
+      x: (start.x + 2 * control.x + end.x) / 4,
+      y: (start.y + 2 * control.y + end.y) / 4
+    }
+  };
+}
+
+interface Ports {
+  horizontal: boolean;
+  direction: Point;
+  start: Point;
+  end: Point;
+}
+
+/**
+ * Pick the side of each box the edge leaves and enters through, based on
+ * whether the nodes are further apart horizontally or vertically. An offset
+ * slides both ports along their side, to the left of the edge direction.
+ */
+function getPorts(
+  source: Point,
+  target: Point,
+  sizes: EdgeEndSizes,
+  offset: number = 0,
+  anchors?: EdgeAnchors
+): Ports {
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+
+  // Item rows are attached on the left and right of a node
+  if (anchors) {
+    const sign = Math.sign(dx) || 1;
+    return {
+      horizontal: true,
+      direction: { x: sign, y: 0 },
+      start: { x: source.x + sign * sizes.source.width / 2, y: source.y + (anchors.sourceOffset ?? 0) },
+      end: { x: target.x - sign * sizes.target.width / 2, y: target.y + (anchors.targetOffset ?? 0) }
+    };
+  }
+
+  const width = (sizes.source.width + sizes.target.width) / 2;
+  const height = (sizes.source.height + sizes.target.height) / 2;
+  const horizontal = Math.abs(dx) / width >= Math.abs(dy) / height;
+
+  const sidePoint = (sign: number, isHorizontal: boolean, size: Size): Point => isHorizontal
+    ? { x: sign * size.width / 2, y: 0 }
+    : { x: 0, y: sign * size.height / 2 };
+
+  const sign = horizontal ? Math.sign(dx) || 1 : Math.sign(dy) || 1;
+  const out = sidePoint(sign, horizontal, sizes.source);
+  const into = sidePoint(-sign, horizontal, sizes.target);
+  const direction: Point = horizontal ? { x: sign, y: 0 } : { x: 0, y: sign };
+
+  // Keep the ports away from the corners of the smaller node
+  const limit = (horizontal
+    ? Math.min(sizes.source.height, sizes.target.height)
+    : Math.min(sizes.source.width, sizes.target.width)) / 2 - 8;
+  const shift = Math.max(-limit, Math.min(limit, offset));
+  const normal = { x: -direction.y * shift, y: direction.x * shift };
+
+  return {
+    horizontal,
+    direction,
+    start: { x: source.x + out.x + normal.x, y: source.y + out.y + normal.y },
+    end: { x: target.x + into.x + normal.x, y: target.y + into.y + normal.y }
+  };
+}
+
+/**
+ * Cubic bezier leaving and entering the nodes perpendicular to their borders
+ */
+function routeBezier({ horizontal, direction, start, end }: Ports): EdgeRoute {
+  const tip = { x: end.x - direction.x * 6, y: end.y - direction.y * 6 };
+
+  // Control points continue straight out of each border, at least a little
+  // even when the nodes sit almost on top of each other
+  const reach = Math.max(horizontal ? Math.abs(tip.x - start.x) / 2 : Math.abs(tip.y - start.y) / 2, 40);
+  const c1 = { x: start.x + direction.x * reach, y: start.y + direction.y * reach };
+  const c2 = { x: tip.x - direction.x * reach, y: tip.y - direction.y * reach };
+
+  // Point at t = 0.5 of the cubic curve
+  const labelPoint = {
+    x: (start.x + 3 * c1.x + 3 * c2.x + tip.x) / 8,
+    y: (start.y + 3 * c1.y + 3 * c2.y + tip.y) / 8
+  };
+
+  return {
+    path: `M ${start.x} ${start.y} C ${c1.x} ${c1.y}, ${c2.x} ${c2.y}, ${tip.x} ${tip.y}`,
+    labelPoint
+  };
+}
+
+/**
+ * Minimal binary heap keyed by cost, used by the orthogonal router
+ */
+class MinHeap<T> {
+  private items: Array<{ cost: number; value: T }> = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(cost: number, value: T) {
+    const items = this.items;
+    items.push({ cost, value });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= items[i].cost) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { cost: number; value: T } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Search a sparse grid built from the obstacle borders for the cheapest
+ * right-angled path between two points, penalising bends
+ */
+function findOrthogonalPath(from: Point, to: Point, obstacles: Box[]): Point[] | null {
+  const xs = Array.from(new Set([from.x, to.x, ...obstacles.flatMap(box => [box.left, box.right])])).sort((a, b) => a - b);
+  const ys = Array.from(new Set([from.y, to.y, ...obstacles.flatMap(box => [box.top, box.bottom])])).sort((a, b) => a - b);
+
+  const key = (i: number, j: number, direction: number) => (i * ys.length + j) * 4 + direction;
+  const startI = xs.indexOf(from.x);
+  const startJ = ys.indexOf(from.y);
+  const endI = xs.indexOf(to.x);
+  const endJ = ys.indexOf(to.y);
+
+  // Directions: 0 = +x, 1 = -x, 2 = +y, 3 = -y
+  const moves = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+  const costs = new Map<number, number>();
+  const previous = new Map<number, number>();
+  const heap = new MinHeap<{ i: number; j: number; direction: number }>();
+
+  for (let direction = 0; direction < 4; direction++) {
+    costs.set(key(startI, startJ, direction), 0);
+    heap.push(0, { i: startI, j: startJ, direction });
+  }
+
+  while (heap.size > 0) {
+    const { cost, value } = heap.pop()!;
+    const { i, j, direction } = value;
+    const currentKey = key(i, j, direction);
+    if (cost > (costs.get(currentKey) ?? Infinity)) continue;
+
+    if (i === endI && j === endJ) {
+      // Walk back to the start
+      const points: Point[] = [];
+      let walk: number | undefined = currentKey;
+      while (walk !== undefined) {
+        const cell = Math.floor(walk / 4);
+        points.unshift({ x: xs[Math.floor(cell / ys.length)], y: ys[cell % ys.length] });
+        walk = previous.get(walk);
+      }
+      return points;
+    }
+
+    moves.forEach(([di, dj], nextDirection) => {
+      const ni = i + di;
+      const nj = j + dj;
+      if (ni < 0 || nj < 0 || ni >= xs.length || nj >= ys.length) return;
+
+      const a = { x: xs[i], y: ys[j] };
+      const b = { x: xs[ni], y: ys[nj] };
+      if (obstacles.some(box => isInside(b, box) || segmentHitsBox(a, b, box))) return;
+
+      const nextCost = cost + Math.abs(b.x - a.x) + Math.abs(b.y - a.y) +
+        (nextDirection === direction ? 0 : BEND_PENALTY);
+      const nextKey = key(ni, nj, nextDirection);
+      if (nextCost < (costs.get(nextKey) ?? Infinity)) {
+        costs.set(nextKey, nextCost);
+        previous.set(nextKey, currentKey);
+        heap.push(nextCost, { i: ni, j: nj, direction: nextDirection });
+      }
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Right-angled route that goes around node boxes. Falls back to a simple
+ * three-segment route when no free path exists.
+ */
+function routeOrthogonal(
+  { horizontal, direction, start, end }: Ports,
+  nodeSize: Size,
+  obstacleNodes: RouteObstacle[]
+): EdgeRoute {
+
+  // Short stubs out of the node borders give the search room to turn
+  const startStub = { x: start.x + direction.x * ROUTE_MARGIN, y: start.y + direction.y * ROUTE_MARGIN };
+  const endStub = { x: end.x - direction.x * ROUTE_MARGIN, y: end.y - direction.y * ROUTE_MARGIN };
+  // Stop short of the border so the arrowhead isn't hidden under the node
+  const endPoint = { x: end.x - direction.x * 6, y: end.y - direction.y * 6 };
+
+  // Only nodes around the edge can be in the way
+  const region = {
+    left: Math.min(startStub.x, endStub.x) - nodeSize.width * 2,
+    right: Math.max(startStub.x, endStub.x) + nodeSize.width * 2,
+    top: Math.min(startStub.y, endStub.y) - nodeSize.height * 2,
+    bottom: Math.max(startStub.y, endStub.y) + nodeSize.height * 2
+  };
+  const obstacles = obstacleNodes
+    .map(node => boxOf(node, node.width && node.height ? { width: node.width, height: node.height } : nodeSize, ROUTE_MARGIN - 1))
+    .filter(box => box.right > region.left && box.left < region.right &&
+      box.bottom > region.top && box.top < region.bottom)
+    .filter(box => !isInside(startStub, box) && !isInside(endStub, box));
+
+  let corners = obstacles.length <= MAX_OBSTACLES
+    ? findOrthogonalPath(startStub, endStub, obstacles)
+    : null;
+
+  if (!corners) {
+    const mid = horizontal
+      ? [{ x: (startStub.x + endStub.x) / 2, y: startStub.y }, { x: (startStub.x + endStub.x) / 2, y: endStub.y }]
+      : [{ x: startStub.x, y: (startStub.y + endStub.y) / 2 }, { x: endStub.x, y: (startStub.y + endStub.y) / 2 }];
+    corners = [startStub, ...mid, endStub];
+  }
+
+  const points = removeCollinear([start, ...corners, endPoint]);
+  return {
+    path: toPath(points),
+    labelPoint: getPolylineMidpoint(points)
+  };
+}
+
+/**
+ * Whether a node centered at `point` can be in the way of the orthogonal
+ * route between two node centers. Routes only need recomputing when a node
+ * near them moves.
+ */
+export function isNearOrthogonalRoute(
+  point: Point,
+  source: Point,
+  target: Point,
+  nodeSize: { width: number; height: number }
+): boolean {
+  // Stubs, search region and obstacle boxes each reach a little further out
+  const reachX = nodeSize.width * 3 + ROUTE_MARGIN * 2;
+  const reachY = nodeSize.height * 3 + ROUTE_MARGIN * 2;
+  return point.x > Math.min(source.x, target.x) - reachX && point.x < Math.max(source.x, target.x) + reachX &&
+    point.y > Math.min(source.y, target.y) - reachY && point.y < Math.max(source.y, target.y) + reachY;
+}
+
+/**
+ * Route an edge between two node centers in the given style. `nodeSize` is
+ * the size of both nodes, or of each end when nodes are drawn at different sizes.
+ * `obstacles` are the centers of every node, with their size when it differs
+ * from `nodeSize`, used by orthogonal routing.
+ * `lane` moves parallel edges apart, see getEdgeLanes. Edges attached to
+ * section items pass `anchors` and ignore their lane.
+ */
+export function routeEdge(
+  style: EdgeStyle,
+  source: Point,
+  target: Point,
+  nodeSize: Size | EdgeEndSizes,
+  obstacles: RouteObstacle[] = [],
+  lane: number = 0,
+  anchors?: EdgeAnchors
+): EdgeRoute {
+  const offset = lane * LANE_SPACING;
+  const sizes = getEdgeEndSizes(nodeSize);
+
+  if (style === 'straight' && anchors) {
+    const { direction, start, end } = getPorts(source, target, sizes, 0, anchors);
+    const tip = { x: end.x - direction.x * 6, y: end.y };
+    return {
+      path: toPath([start, tip]),
+      labelPoint: { x: (start.x + tip.x) / 2, y: (start.y + tip.y) / 2 }
+    };
+  }
+
+  switch (style) {
+    case 'bezier':
+      return routeBezier(getPorts(source, target, sizes, offset, anchors));
+    case 'orthogonal':
+      // The search region grows with the larger end
+      return routeOrthogonal(getPorts(source, target, sizes, offset, anchors), {
+        width: Math.max(sizes.source.width, sizes.target.width),
+        height: Math.max(sizes.source.height, sizes.target.height)
+      }, obstacles);
+    default:
+      return routeStraight(source, target, sizes, offset);
+  }
+}
+
+/**
+ * Loop drawn off the top-right corner of a node for an edge to itself.
+ * Further loops on the same node (higher `index`) are drawn larger.
+ */
+export function routeSelfLoop(
+  center: Point,
+  nodeSize: { width: number; height: number },
+  index: number = 0
+): EdgeRoute {
+  const size = 40 + index * 20;
+  const corner = { x: center.x + nodeSize.width / 2, y: center.y - nodeSize.height / 2 };
+  const start = { x: corner.x - 24, y: corner.y };
+  // Leave room for the arrowhead, as with other edges
+  const end = { x: corner.x + 6, y: corner.y + 24 };
+  const c1 = { x: start.x + size * 0.2, y: start.y - size * 1.4 };
+  const c2 = { x: end.x + size * 1.4, y: end.y - size * 0.2 };
+
+  return {
+    path: `M ${start.x} ${start.y} C ${c1.x} ${c1.y}, ${c2.x} ${c2.y}, ${end.x} ${end.y}`,
+    labelPoint: {
+      x: (start.x + 3 * c1.x + 3 * c2.x + end.x) / 8,
+      y: (start.y + 3 * c1.y + 3 * c2.y + end.y) / 8
+    }
+  };
+}
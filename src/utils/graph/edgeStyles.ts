@@ -0,0 +1,154 @@
+import { Edge } from '../../types/graph';
+import { getEdgeWeight, hasEdgeWeight } from './edgeUtils';
+
+/**
+ * Shape drawn at the target end of an edge
+ */
+export type EdgeMarkerShape = 'arrow' | 'hollowArrow' | 'diamond' | 'hollowDiamond' | 'circle' | 'none';
+
+/**
+ * Visual style of one edge type. Colors can differ per theme.
+ */
+export interface EdgeTypeStyle {
+  color?: string | { light: string; dark: string };
+  /** SVG stroke-dasharray, e.g. "6 4" */
+  dashArray?: string;
+  width?: number;
+  marker?: EdgeMarkerShape;
+}
+
+/**
+ * Styles keyed by `Edge.type`
+ */
+export type EdgeStyleMap = Record<string, EdgeTypeStyle>;
+
+export interface ResolvedEdgeStyle {
+  color: string;
+  dashArray?: string;
+  width: number;
+  marker: EdgeMarkerShape;
+}
+
+export const EDGE_MARKER_SHAPES: EdgeMarkerShape[] = ['arrow', 'hollowArrow', 'diamond', 'hollowDiamond', 'circle'];
+
+/**
+ * Style of edges without a type or with a type missing from the style map
+ */
+export const DEFAULT_EDGE_STYLE: Required<EdgeTypeStyle> = {
+  color: { light: '#d1d5db', dark: '#4b5563' },
+  dashArray: '',
+  width: 1.5,
+  marker: 'arrow'
+};
+
+/**
+ * Built-in styles for the edge types used by the sample projects
+ */
+export const DEFAULT_EDGE_STYLES: EdgeStyleMap = {
+  renders: { color: { light: '#818cf8', dark: '#6366f1' } },
+  dependency: { color: { light: '#94a3b8', dark: '#64748b' }, dashArray: '6 4' },
+  inheritance: { color: { light: '#f59e0b', dark: '#d97706' }, marker: 'hollowArrow' },
+  implements: { color: { light: '#f59e0b', dark: '#d97706' }, dashArray: '6 4', marker: 'hollowArrow' },
+  contains: { color: { light: '#c084fc', dark: '#a855f7' }, marker: 'diamond' },
+  foreignkey: { color: { light: '#2dd4bf', dark: '#14b8a6' }, marker: 'circle' },
+  manytomanyfield: { color: { light: '#f472b6', dark: '#ec4899' }, dashArray: '2 3', marker: 'circle' }
+};
+
+/**
+ * Colors used for edges of the selected node, of highlighted paths and of
+ * edges breaking an architecture rule, by the rule's severity
+ */
+export const EDGE_HIGHLIGHT_COLORS = {
+  highlighted: '#3b82f6', // blue
+  path: '#22c55e', // green
+  violation: '#ef4444', // red
+  violationWarning: '#f59e0b' // amber
+};
+
+/**
+ * Dash pattern of edges breaking an architecture rule
+ */
+export const EDGE_VIOLATION_DASH_ARRAY = '5 3';
+
+/**
+ * Resolve the style of an edge type for a theme, falling back to the default style
+ */
+export function resolveEdgeStyle(
+  type: string | undefined,
+  theme: 'light' | 'dark',
+  styleMap: EdgeStyleMap = DEFAULT_EDGE_STYLES
+): ResolvedEdgeStyle {
+  const style = { ...DEFAULT_EDGE_STYLE, ...(type ? styleMap[type] : undefined) };
+  return {
+    color: typeof style.color === 'string' ? style.color : style.color[theme],
+    dashArray: style.dashArray || undefined,
+    width: style.width,
+    marker: style.marker
+  };
+}
+
+/**
+ * How edge weights map to stroke widths
+ */
+export interface EdgeWeightScale {
+  /** 'sqrt' and 'log' keep a few very heavy edges from dwarfing the rest */
+  type?: 'linear' | 'sqrt' | 'log';
+  /** Width of the lightest edge */
+  minWidth?: number;
+  /** Width of the heaviest edge */
+  maxWidth?: number;
+}
+
+const DEFAULT_EDGE_WEIGHT_SCALE: Required<EdgeWeightScale> = {
+  type: 'sqrt',
+  minWidth: 1,
+  maxWidth: 6
+};
+
+/**
+ * Create a function giving the stroke width of an edge from its weight.
+ * Returns undefined for every edge when no weights are set or they are all
+ * equal, so edges keep the width of their type style.
+ */
+export function createEdgeWidthScale(
+  edges: Edge[],
+  scale: EdgeWeightScale = {}
+): (edge: Edge) => number | undefined {
+  const settings = { ...DEFAULT_EDGE_WEIGHT_SCALE, ...scale };
+  const transform = (weight: number) =>
+    settings.type === 'log' ? Math.log1p(weight) : settings.type === 'sqrt' ? Math.sqrt(weight) : weight;
+
+  const weighted = edges.filter(hasEdgeWeight);
+  if (weighted.length === 0) return () => undefined;
+
+  const weights = weighted.map(edge => transform(getEdgeWeight(edge)));
+  // Edges without a weight count as 1, so they're part of the range too
+  if (weighted.length < edges.length) weights.push(transform(1));
+  const min = Math.min(...weights);
+  const max = Math.max(...weights);
+  if (max === min) return () => undefined;
+
+  return edge => settings.minWidth +
+    (transform(getEdgeWeight(edge)) - min) / (max - min) * (settings.maxWidth - settings.minWidth);
+}
+
+/**
+ * Id of the `<marker>` generated for an edge type in GraphDefs
+ */
+export function getEdgeTypeMarkerId(type: string | undefined): string {
+  return type ? `edge-marker-type-${type.replace(/[^a-zA-Z0-9_-]/g, '_')}` : 'edge-marker-default';
+}
+
+/**
+ * Id of the `<marker>` for a shape in one of the highlight colors
+ */
+export function getEdgeHighlightMarkerId(shape: EdgeMarkerShape, variant: keyof typeof EDGE_HIGHLIGHT_COLORS): string {
+  return `edge-marker-${shape}-${variant}`;
+}
+
+/**
+ * Id of the `<marker>` for a shape in the color of a dependency cycle
+ */
+export function getCycleMarkerId(shape: EdgeMarkerShape, cycleIndex: number): string {
+  return `edge-marker-${shape}-cycle-${cycleIndex}`;
+}
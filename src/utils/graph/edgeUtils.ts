@@ -1,3 +1,5 @@
+import { Edge } from '../../types/graph';
+
 export function calculateNodeIntersection(
     centerX: number,
     centerY: number,
@@ -33,4 +35,112 @@ export function calculateNodeIntersection(
       x: centerX + x,
       y: centerY + y
     };
-  }
\ No newline at end of file
+  }
+
+/**
+ * Get the identity of an edge. Edges without an explicit id are identified by
+ * their endpoints (including section items) and type, see assignEdgeIds for
+ * making these unique.
+ */
+export function getEdgeId(edge: Edge): string {
+  const source = edge.sourceItemId ? `${edge.source}.${edge.sourceItemId}` : edge.source;
+  const target = edge.targetItemId ? `${edge.target}.${edge.targetItemId}` : edge.target;
+  return edge.id ?? `${source}->${target}${edge.type ? `:${edge.type}` : ''}`;
+}
+
+/**
+ * Give every edge a unique id. Edges that would share an id get a numbered
+ * suffix in the order they appear, so ids stay stable for the same data.
+ */
+export function assignEdgeIds(edges: Edge[]): Edge[] {
+  const seen = new Map<string, number>();
+  return edges.map(edge => {
+    const base = getEdgeId(edge);
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return { ...edge, id: count === 0 ? base : `${base}#${count + 1}` };
+  });
+}
+
+/**
+ * Spread edges that share the same pair of nodes into lanes, so parallel and
+ * reciprocal edges don't draw on top of each other.
+ *
+ * Lanes are centred on zero and measured to the left of the edge's own
+ * direction, so A->B and B->A end up on opposite sides. Self-loops are
+ * numbered 0, 1, 2... per node instead.
+ */
+export function getEdgeLanes(edges: Edge[]): Map<string, number> {
+  const groups = new Map<string, Edge[]>();
+  edges.forEach(edge => {
+    const key = edge.source <= edge.target
+      ? `${edge.source}\u0000${edge.target}`
+      : `${edge.target}\u0000${edge.source}`;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(edge);
+  });
+
+  const lanes = new Map<string, number>();
+  groups.forEach(group => {
+    group.forEach((edge, i) => {
+      if (edge.source === edge.target) {
+        lanes.set(getEdgeId(edge), i);
+        return;
+      }
+      // Lanes are assigned in the direction of the lower node id
+      const lane = i - (group.length - 1) / 2;
+      lanes.set(getEdgeId(edge), edge.source <= edge.target ? lane : -lane);
+    });
+  });
+
+  return lanes;
+}
+
+/**
+ * Metadata of an edge as display rows, most commonly used fields first.
+ * Pass a limit to only get the first entries, e.g. for tooltips.
+ */
+export function getEdgeMetadataEntries(edge: Edge, limit: number = Infinity): Array<{ key: string; value: string }> {
+  if (!edge.metadata) return [];
+
+  const preferred = ['usage', 'functions', 'location', 'relationship', 'direction', 'related_name', 'field_name'];
+  const keys = [
+    ...preferred.filter(key => key in edge.metadata!),
+    ...Object.keys(edge.metadata).filter(key => !preferred.includes(key))
+  ];
+
+  const entries: Array<{ key: string; value: string }> = [];
+  for (const key of keys) {
+    if (entries.length >= limit) break;
+
+    const value = edge.metadata[key];
+    if (value === undefined || value === null) continue;
+
+    entries.push({
+      key: key.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/\b\w/g, l => l.toUpperCase()),
+      value: Array.isArray(value)
+        ? value.join(', ')
+        : typeof value === 'object' ? JSON.stringify(value) : String(value)
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Whether an edge carries a weight, either as `weight` or `metadata.weight`
+ */
+export function hasEdgeWeight(edge: Edge): boolean {
+  const weight = edge.weight ?? edge.metadata?.weight;
+  return typeof weight === 'number' && Number.isFinite(weight) && weight > 0;
+}
+
+/**
+ * Weight of an edge, e.g. the number of imports or calls it stands for.
+ * Edges without a valid positive weight count as 1.
+ */
+export function getEdgeWeight(edge: Edge): number {
+  return hasEdgeWeight(edge) ? (edge.weight ?? edge.metadata!.weight) : 1;
+}
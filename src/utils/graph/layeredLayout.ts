@@ -0,0 +1,408 @@
+import { Node, Edge } from '../../types/graph';
+import { DEFAULT_NODE_SIZE, BaseLayoutOptions } from '../graphLayout';
+import { getEdgeWeight } from './edgeUtils';
+
+/**
+ * Options for the layered (tree) layout. The layout is fully deterministic,
+ * so the shared seed option has no effect on it.
+ */
+export interface TreeLayoutOptions extends BaseLayoutOptions {
+  /** 'TB' places ranks top-to-bottom, 'LR' places them left-to-right */
+  direction?: 'TB' | 'LR';
+  /** Gap between consecutive ranks, in addition to the node size */
+  rankSpacing?: number;
+  /** Gap between neighbouring nodes in the same rank */
+  nodeSpacing?: number;
+  /** Number of barycenter sweeps used to reduce edge crossings */
+  crossingIterations?: number;
+}
+
+const DEFAULT_TREE_OPTIONS: Required<Omit<TreeLayoutOptions, keyof BaseLayoutOptions>> = {
+  direction: 'TB',
+  rankSpacing: 120,
+  nodeSpacing: 40,
+  crossingIterations: 24
+};
+
+// Edge between two vertex indices with its weight
+type Link = [source: number, target: number, weight: number];
+
+interface LayerGraph {
+  // Successors and predecessors by vertex index, including dummy vertices
+  successors: number[][];
+  predecessors: number[][];
+  rank: number[];
+  vertexCount: number;
+  // Weight of the segment between two adjacent vertices, see segmentKey
+  weight: Map<string, number>;
+}
+
+const segmentKey = (a: number, b: number) => a < b ? `${a}:${b}` : `${b}:${a}`;
+
+/**
+ * Reverse edges that close a cycle so the remaining graph is acyclic.
+ * Uses an iterative DFS and flips every edge that points back onto the stack.
+ * Heavier edges are followed first as a heuristic, which tends to leave the
+ * back edges among the lighter ones; it doesn't minimise the reversed weight.
+ */
+function breakCycles(nodeCount: number, links: Link[]): Link[] {
+  const outgoing: number[][] = Array.from({ length: nodeCount }, () => []);
+  links.forEach(([source], i) => outgoing[source].push(i));
+  outgoing.forEach(list => list.sort((a, b) => links[b][2] - links[a][2]));
+
+  // 0 = unvisited, 1 = on stack, 2 = finished
+  const state = new Array<number>(nodeCount).fill(0);
+  const reversed = new Set<number>();
+
+  for (let root = 0; root < nodeCount; root++) {
+    if (state[root] !== 0) continue;
+
+    const stack: Array<{ vertex: number; next: number }> = [{ vertex: root, next: 0 }];
+    state[root] = 1;
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next >= outgoing[frame.vertex].length) {
+        state[frame.vertex] = 2;
+        stack.pop();
+        continue;
+      }
+
+      const linkIndex = outgoing[frame.vertex][frame.next++];
+      const target = links[linkIndex][1];
+      if (state[target] === 1) {
+        reversed.add(linkIndex);
+      } else if (state[target] === 0) {
+        state[target] = 1;
+        stack.push({ vertex: target, next: 0 });
+      }
+    }
+  }
+
+  return links.map(([source, target, weight], i) =>
+    reversed.has(i) ? [target, source, weight] : [source, target, weight]);
+}
+
+/**
+ * Assign ranks with the longest-path method, then pull sources down so they
+ * sit directly above their closest successor instead of all landing in rank 0.
+ */
+function assignRanks(nodeCount: number, links: Link[]): number[] {
+  const successors: number[][] = Array.from({ length: nodeCount }, () => []);
+  const inDegree = new Array<number>(nodeCount).fill(0);
+  links.forEach(([source, target]) => {
+    successors[source].push(target);
+    inDegree[target]++;
+  });
+
+  const rank = new Array<number>(nodeCount).fill(0);
+  const queue: number[] = [];
+  for (let i = 0; i < nodeCount; i++) {
+    if (inDegree[i] === 0) queue.push(i);
+  }
+
+  // Kahn's algorithm gives a topological order to relax ranks in
+  const order: number[] = [];
+  const remaining = [...inDegree];
+  for (let head = 0; head < queue.length; head++) {
+    const vertex = queue[head];
+    order.push(vertex);
+    successors[vertex].forEach(target => {
+      rank[target] = Math.max(rank[target], rank[vertex] + 1);
+      if (--remaining[target] === 0) queue.push(target);
+    });
+  }
+
+  for (let i = order.length - 1; i >= 0; i--) {
+    const vertex = order[i];
+    if (inDegree[vertex] === 0 && successors[vertex].length > 0) {
+      rank[vertex] = Math.min(...successors[vertex].map(target => rank[target])) - 1;
+    }
+  }
+
+  return rank;
+}
+
+/**
+ * Split edges spanning several ranks into chains of dummy vertices
+ */
+function buildLayerGraph(nodeCount: number, links: Link[], rank: number[]): LayerGraph {
+  const graph: LayerGraph = {
+    successors: Array.from({ length: nodeCount }, () => []),
+    predecessors: Array.from({ length: nodeCount }, () => []),
+    rank: [...rank],
+    vertexCount: nodeCount,
+    weight: new Map()
+  };
+
+  const connect = (source: number, target: number, weight: number) => {
+    const key = segmentKey(source, target);
+    // An edge and a reversed edge between the same nodes share one segment
+    if (graph.weight.has(key)) {
+      graph.weight.set(key, graph.weight.get(key)! + weight);
+      return;
+    }
+    graph.successors[source].push(target);
+    graph.predecessors[target].push(source);
+    graph.weight.set(key, weight);
+  };
+
+  links.forEach(([source, target, weight]) => {
+    let previous = source;
+    for (let r = rank[source] + 1; r < rank[target]; r++) {
+      const dummy = graph.vertexCount++;
+      graph.successors.push([]);
+      graph.predecessors.push([]);
+      graph.rank.push(r);
+      connect(previous, dummy, weight);
+      previous = dummy;
+    }
+    connect(previous, target, weight);
+  });
+
+  return graph;
+}
+
+/**
+ * Count crossings between every pair of adjacent layers, weighted by the
+ * product of the weights of the crossing edges
+ */
+function countCrossings(layers: number[][], graph: LayerGraph): number {
+  let crossings = 0;
+
+  for (let r = 0; r < layers.length - 1; r++) {
+    const position = new Map<number, number>();
+    layers[r + 1].forEach((vertex, i) => position.set(vertex, i));
+
+    const segments: Array<[number, number, number]> = [];
+    layers[r].forEach((vertex, i) => {
+      graph.successors[vertex].forEach(target => {
+        const targetPosition = position.get(target);
+        if (targetPosition !== undefined) {
+          segments.push([i, targetPosition, graph.weight.get(segmentKey(vertex, target)) ?? 1]);
+        }
+      });
+    });
+
+    for (let a = 0; a < segments.length; a++) {
+      for (let b = a + 1; b < segments.length; b++) {
+        const [a1, a2, aWeight] = segments[a];
+        const [b1, b2, bWeight] = segments[b];
+        if ((a1 - b1) * (a2 - b2) < 0) crossings += aWeight * bWeight;
+      }
+    }
+  }
+
+  return crossings;
+}
+
+/**
+ * Reorder vertices within layers using alternating barycenter sweeps,
+ * keeping the ordering with the fewest crossings seen
+ */
+function minimiseCrossings(graph: LayerGraph, iterations: number): number[][] {
+  const rankCount = Math.max(...graph.rank) + 1;
+  const layers: number[][] = Array.from({ length: rankCount }, () => []);
+  for (let v = 0; v < graph.vertexCount; v++) {
+    layers[graph.rank[v]].push(v);
+  }
+
+  let best = layers.map(layer => [...layer]);
+  let bestCrossings = countCrossings(layers, graph);
+
+  const sortByBarycenter = (layer: number[], neighbours: number[][], reference: number[]) => {
+    const position = new Map<number, number>();
+    reference.forEach((vertex, i) => position.set(vertex, i));
+
+    const barycenter = new Map<number, number>();
+    layer.forEach((vertex, i) => {
+      let total = 0;
+      let totalWeight = 0;
+      neighbours[vertex].forEach(n => {
+        const p = position.get(n);
+        if (p === undefined) return;
+        const weight = graph.weight.get(segmentKey(vertex, n)) ?? 1;
+        total += p * weight;
+        totalWeight += weight;
+      });
+      // Vertices without neighbours keep their current slot
+      barycenter.set(vertex, totalWeight > 0 ? total / totalWeight : i);
+    });
+
+    layer.sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+  };
+
+  for (let i = 0; i < iterations && bestCrossings > 0; i++) {
+    if (i % 2 === 0) {
+      for (let r = 1; r < rankCount; r++) {
+        sortByBarycenter(layers[r], graph.predecessors, layers[r - 1]);
+      }
+    } else {
+      for (let r = rankCount - 2; r >= 0; r--) {
+        sortByBarycenter(layers[r], graph.successors, layers[r + 1]);
+      }
+    }
+
+    const crossings = countCrossings(layers, graph);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = layers.map(layer => [...layer]);
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Assign in-layer coordinates by pulling each vertex towards the weighted mean
+ * of its neighbours while keeping the layer order and minimum separation intact
+ */
+function assignCoordinates(layers: number[][], graph: LayerGraph, separation: number): number[] {
+  const coordinate = new Array<number>(graph.vertexCount).fill(0);
+  layers.forEach(layer => {
+    layer.forEach((vertex, i) => {
+      coordinate[vertex] = (i - (layer.length - 1) / 2) * separation;
+    });
+  });
+
+  const placeLayer = (layer: number[], neighbours: number[][]) => {
+    const desired = layer.map(vertex => {
+      const adjacent = neighbours[vertex];
+      if (adjacent.length === 0) return coordinate[vertex];
+      const weights = adjacent.map(n => graph.weight.get(segmentKey(vertex, n)) ?? 1);
+      const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+      return adjacent.reduce((sum, n, i) => sum + coordinate[n] * weights[i], 0) / totalWeight;
+    });
+
+    // Enforce the order and spacing, then shift back so the layer stays balanced
+    const placed = [...desired];
+    for (let i = 1; i < placed.length; i++) {
+      placed[i] = Math.max(placed[i], placed[i - 1] + separation);
+    }
+    const shift = (desired.reduce((sum, x) => sum + x, 0) - placed.reduce((sum, x) => sum + x, 0)) / placed.length;
+    layer.forEach((vertex, i) => {
+      coordinate[vertex] = placed[i] + shift;
+    });
+  };
+
+  for (let pass = 0; pass < 8; pass++) {
+    if (pass % 2 === 0) {
+      for (let r = 1; r < layers.length; r++) placeLayer(layers[r], graph.predecessors);
+    } else {
+      for (let r = layers.length - 2; r >= 0; r--) placeLayer(layers[r], graph.successors);
+    }
+  }
+
+  return coordinate;
+}
+
+/**
+ * Resolve edges to unique index pairs, merging parallel edges into one link
+ * with their summed weight and dropping self-loops since they don't affect
+ * the hierarchy
+ */
+function collectLinks(nodes: Node[], edges: Edge[]): Link[] {
+  const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+  const seen = new Map<string, Link>();
+  const links: Link[] = [];
+
+  edges.forEach(edge => {
+    const source = indexById.get(edge.source);
+    const target = indexById.get(edge.target);
+    if (source === undefined || target === undefined || source === target) return;
+    const key = `${source}:${target}`;
+    const existing = seen.get(key);
+    if (existing) {
+      existing[2] += getEdgeWeight(edge);
+      return;
+    }
+    const link: Link = [source, target, getEdgeWeight(edge)];
+    seen.set(key, link);
+    links.push(link);
+  });
+
+  return links;
+}
+
+/**
+ * Create a layered (Sugiyama-style) layout for nodes.
+ *
+ * Cycles are broken by reversing back edges, ranks come from the longest path,
+ * long edges are routed through dummy vertices while crossings are reduced with
+ * barycenter sweeps. Nodes without any edges are packed into a grid after the
+ * last rank, and the result is centered on the given point.
+ */
+export function createTreeLayout(
+  nodes: Node[],
+  center: { x: number, y: number },
+  _availableSpace: { width: number, height: number },
+  edges: Edge[] = [],
+  options: TreeLayoutOptions = {},
+  onProgress?: (progress: number) => void,
+  nodeSize: { width: number; height: number } = DEFAULT_NODE_SIZE
+): Record<string, { x: number; y: number }> {
+  const settings = { ...DEFAULT_TREE_OPTIONS, ...options };
+  if (nodes.length === 0) return {};
+
+  const isHorizontal = settings.direction === 'LR';
+  const separation = (isHorizontal ? nodeSize.height : nodeSize.width) + settings.nodeSpacing;
+  const rankStep = (isHorizontal ? nodeSize.width : nodeSize.height) + settings.rankSpacing;
+
+  const connected = new Set<string>();
+  collectLinks(nodes, edges).forEach(([source, target]) => {
+    connected.add(nodes[source].id);
+    connected.add(nodes[target].id);
+  });
+  const hierarchyNodes = nodes.filter(node => connected.has(node.id));
+  const isolatedNodes = nodes.filter(node => !connected.has(node.id));
+
+  // Positions along the layer ('along') and across ranks ('across')
+  const local: Record<string, { along: number; across: number }> = {};
+  let rankCount = 0;
+
+  if (hierarchyNodes.length > 0) {
+    const acyclicLinks = breakCycles(hierarchyNodes.length, collectLinks(hierarchyNodes, edges));
+    const rank = assignRanks(hierarchyNodes.length, acyclicLinks);
+    onProgress?.(0.25);
+
+    // Normalise ranks so the first layer is zero
+    const minRank = Math.min(...rank);
+    const normalisedRank = rank.map(r => r - minRank);
+
+    const graph = buildLayerGraph(hierarchyNodes.length, acyclicLinks, normalisedRank);
+    const layers = minimiseCrossings(graph, settings.crossingIterations);
+    onProgress?.(0.75);
+    const coordinate = assignCoordinates(layers, graph, separation);
+    rankCount = layers.length;
+
+    hierarchyNodes.forEach((node, i) => {
+      local[node.id] = { along: coordinate[i], across: normalisedRank[i] * rankStep };
+    });
+  }
+
+  if (isolatedNodes.length > 0) {
+    const columns = Math.ceil(Math.sqrt(isolatedNodes.length));
+    isolatedNodes.forEach((node, i) => {
+      const column = i % columns;
+      const row = Math.floor(i / columns);
+      local[node.id] = {
+        along: (column - (columns - 1) / 2) * separation,
+        across: (rankCount + row) * rankStep
+      };
+    });
+  }
+
+  // Center the drawing on both axes
+  const placed = Object.values(local);
+  const midAlong = (Math.min(...placed.map(p => p.along)) + Math.max(...placed.map(p => p.along))) / 2;
+  const midAcross = (Math.min(...placed.map(p => p.across)) + Math.max(...placed.map(p => p.across))) / 2;
+
+  return nodes.reduce((acc, node) => {
+    const along = local[node.id].along - midAlong;
+    const across = local[node.id].across - midAcross;
+    acc[node.id] = isHorizontal
+      ? { x: center.x + across, y: center.y + along }
+      : { x: center.x + along, y: center.y + across };
+    return acc;
+  }, {} as Record<string, { x: number; y: number }>);
+}
@@ -0,0 +1,185 @@
+import { GraphData } from '../../types/graph';
+
+/**
+ * Centrality measures of one node
+ */
+export interface NodeMetrics {
+  inDegree: number;
+  outDegree: number;
+  degree: number;
+  /** Share of shortest paths between other nodes that pass through this node, 0 to 1 */
+  betweenness: number;
+  /** Stationary probability of a random walk along the edges, sums to 1 over all nodes */
+  pageRank: number;
+}
+
+export type MetricName = keyof NodeMetrics;
+
+export const METRIC_LABELS: Record<MetricName, string> = {
+  inDegree: 'In-degree',
+  outDegree: 'Out-degree',
+  degree: 'Degree',
+  betweenness: 'Betweenness',
+  pageRank: 'PageRank'
+};
+
+export interface GraphMetricsOptions {
+  /** Probability of following an edge rather than jumping to a random node */
+  damping?: number;
+  /** Upper bound on PageRank power iterations */
+  iterations?: number;
+  /** PageRank stops once no score changes by more than this */
+  tolerance?: number;
+}
+
+/**
+ * Brandes' algorithm for directed, unweighted graphs, normalised by the
+ * number of ordered node pairs that could route through a node
+ */
+function computeBetweenness(successors: number[][]): number[] {
+  const n = successors.length;
+  const centrality = new Array<number>(n).fill(0);
+
+  for (let source = 0; source < n; source++) {
+    const order: number[] = [];
+    const predecessors: number[][] = Array.from({ length: n }, () => []);
+    const pathCount = new Array<number>(n).fill(0);
+    const distance = new Array<number>(n).fill(-1);
+    pathCount[source] = 1;
+    distance[source] = 0;
+
+    const queue = [source];
+    for (let i = 0; i < queue.length; i++) {
+      const vertex = queue[i];
+      order.push(vertex);
+      successors[vertex].forEach(next => {
+        if (distance[next] < 0) {
+          distance[next] = distance[vertex] + 1;
+          queue.push(next);
+        }
+        if (distance[next] === distance[vertex] + 1) {
+          pathCount[next] += pathCount[vertex];
+          predecessors[next].push(vertex);
+        }
+      });
+    }
+
+    // Accumulate dependencies from the furthest nodes back towards the source
+    const dependency = new Array<number>(n).fill(0);
+    for (let i = order.length - 1; i >= 0; i--) {
+      const vertex = order[i];
+      predecessors[vertex].forEach(previous => {
+        dependency[previous] += pathCount[previous] / pathCount[vertex] * (1 + dependency[vertex]);
+      });
+      if (vertex !== source) centrality[vertex] += dependency[vertex];
+    }
+  }
+
+  const pairs = (n - 1) * (n - 2);
+  return pairs > 0 ? centrality.map(value => value / pairs) : centrality;
+}
+
+/**
+ * PageRank by power iteration. Nodes without outgoing edges spread their
+ * score over all nodes, so no score leaks out of the graph.
+ */
+function computePageRank(successors: number[][], damping: number, iterations: number, tolerance: number): number[] {
+  const n = successors.length;
+  let ranks = new Array<number>(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const dangling = successors.reduce((sum, next, i) => next.length === 0 ? sum + ranks[i] : sum, 0);
+    const next = new Array<number>(n).fill((1 - damping) / n + damping * dangling / n);
+
+    successors.forEach((targets, i) => {
+      const share = damping * ranks[i] / targets.length;
+      targets.forEach(target => {
+        next[target] += share;
+      });
+    });
+
+    const change = next.reduce((max, rank, i) => Math.max(max, Math.abs(rank - ranks[i])), 0);
+    ranks = next;
+    if (change < tolerance) break;
+  }
+
+  return ranks;
+}
+
+/**
+ * Compute degree, betweenness and PageRank centrality of every node.
+ * Parallel edges count once for betweenness and PageRank but every edge
+ * counts towards the degrees. Edges to unknown nodes are ignored.
+ */
+export function computeGraphMetrics(
+  data: Pick<GraphData, 'nodes' | 'edges'>,
+  options: GraphMetricsOptions = {}
+): Record<string, NodeMetrics> {
+  const { damping = 0.85, iterations = 100, tolerance = 1e-6 } = options;
+  const indexById = new Map(data.nodes.map((node, i) => [node.id, i]));
+  const n = data.nodes.length;
+
+  const inDegree = new Array<number>(n).fill(0);
+  const outDegree = new Array<number>(n).fill(0);
+  const successorSets = Array.from({ length: n }, () => new Set<number>());
+
+  data.edges.forEach(edge => {
+    const source = indexById.get(edge.source);
+    const target = indexById.get(edge.target);
+    if (source === undefined || target === undefined) return;
+    outDegree[source]++;
+    inDegree[target]++;
+    if (source !== target) successorSets[source].add(target);
+  });
+
+  const successors = successorSets.map(set => Array.from(set));
+  const betweenness = computeBetweenness(successors);
+  const pageRank = n > 0 ? computePageRank(successors, damping, iterations, tolerance) : [];
+
+  return Object.fromEntries(data.nodes.map((node, i) => [node.id, {
+    inDegree: inDegree[i],
+    outDegree: outDegree[i],
+    degree: inDegree[i] + outDegree[i],
+    betweenness: betweenness[i],
+    pageRank: pageRank[i]
+  }]));
+}
+
+// Range of node sizes when nodes are sized by a metric
+const METRIC_SCALE_MIN = 0.85;
+const METRIC_SCALE_MAX = 1.4;
+
+/**
+ * Size factor of a node sized by a normalized metric value between 0 and 1
+ */
+export function getMetricNodeScale(value: number): number {
+  return METRIC_SCALE_MIN + (METRIC_SCALE_MAX - METRIC_SCALE_MIN) * value;
+}
+
+/**
+ * Map every node's value of a metric onto 0 to 1 between the lowest and
+ * highest value in the graph. Returns 0 for all nodes when the values are equal.
+ */
+export function normalizeMetric(metrics: Record<string, NodeMetrics>, metric: MetricName): Record<string, number> {
+  const values = Object.values(metrics).map(m => m[metric]);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min;
+
+  return Object.fromEntries(Object.entries(metrics).map(([id, m]) => [
+    id,
+    range > 0 ? (m[metric] - min) / range : 0
+  ]));
+}
+
+/**
+ * Message sent to the metrics worker
+ */
+export type MetricsWorkerRequest = { type: 'metrics'; requestId: number } & Pick<GraphData, 'nodes' | 'edges'>;
+
+/**
+ * Messages sent back by the metrics worker
+ */
+export type MetricsWorkerResponse =
+  | { type: 'result'; requestId: number; metrics: Record<string, NodeMetrics> }
+  | { type: 'error'; requestId: number; message: string };
@@ -69,4 +69,16 @@ export function getNodeTypeColor(type: string): string {
     case 'view': return '#0ea5e9'; // sky
     default: return '#6b7280'; // gray
   }
+}
+
+/**
+ * Get the heat color for a normalised metric value, from pale yellow for
+ * the lowest to red for the highest
+ */
+export function getNodeMetricColor(value: number, theme: 'light' | 'dark'): { background: string; border: string } {
+  const t = Math.min(Math.max(value, 0), 1);
+  const hue = Math.round(55 - 55 * t);
+  return theme === 'dark'
+    ? { background: `hsla(${hue}, 80%, ${20 + 15 * t}%, 0.85)`, border: `hsl(${hue}, 85%, ${45 + 10 * t}%)` }
+    : { background: `hsl(${hue}, 95%, ${94 - 24 * t}%)`, border: `hsl(${hue}, 85%, ${55 - 10 * t}%)` };
 } 
\ No newline at end of file
@@ -0,0 +1,65 @@
+/**
+ * Push overlapping node boxes apart until every pair keeps at least `gap`
+ * between them, or `maxIterations` passes have run.
+ *
+ * Each pass sweeps the nodes sorted by x to find overlapping pairs and
+ * separates every pair along the axis that needs the smaller move, splitting
+ * the move evenly so the centroid of the layout is preserved. Nodes drawn
+ * larger or smaller than `nodeSize` pass their factor in `nodeScales`.
+ */
+export function removeNodeOverlaps(
+  positions: Record<string, { x: number; y: number }>,
+  nodeSize: { width: number; height: number },
+  gap: number = 20,
+  maxIterations: number = 100,
+  nodeScales?: Record<string, number> | null
+): Record<string, { x: number; y: number }> {
+  const ids = Object.keys(positions);
+  const points = ids.map(id => ({ ...positions[id] }));
+  const scales = ids.map(id => nodeScales?.[id] ?? 1);
+  // Widest possible pair, no pair further apart than this can overlap horizontally
+  const maxDx = nodeSize.width * scales.reduce((max, scale) => Math.max(max, scale), 1) + gap;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const order = points.map((_, i) => i).sort((a, b) => points[a].x - points[b].x);
+    let moved = false;
+
+    for (let i = 0; i < order.length; i++) {
+      const a = points[order[i]];
+
+      for (let j = i + 1; j < order.length; j++) {
+        const b = points[order[j]];
+        // Sorted by x, so nothing further along can overlap horizontally
+        if (b.x - a.x >= maxDx) break;
+
+        const pairScale = (scales[order[i]] + scales[order[j]]) / 2;
+        const minDx = nodeSize.width * pairScale + gap;
+        const minDy = nodeSize.height * pairScale + gap;
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const overlapX = minDx - Math.abs(dx);
+        const overlapY = minDy - Math.abs(dy);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+
+        moved = true;
+        if (overlapX / minDx <= overlapY / minDy) {
+          // Coincident nodes are split by their order so the result is stable
+          const direction = dx !== 0 ? Math.sign(dx) : (order[i] < order[j] ? 1 : -1);
+          a.x -= direction * overlapX / 2;
+          b.x += direction * overlapX / 2;
+        } else {
+          const direction = dy !== 0 ? Math.sign(dy) : (order[i] < order[j] ? 1 : -1);
+          a.y -= direction * overlapY / 2;
+          b.y += direction * overlapY / 2;
+        }
+      }
+    }
+
+    if (!moved) break;
+  }
+
+  return ids.reduce((acc, id, i) => {
+    acc[id] = points[i];
+    return acc;
+  }, {} as Record<string, { x: number; y: number }>);
+}
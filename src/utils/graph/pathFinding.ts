@@ -0,0 +1,137 @@
+import { Edge } from '../../types/graph';
+import { getEdgeId } from './edgeUtils';
+
+/**
+ * A directed path between two nodes
+ */
+export interface GraphPath {
+  /** Node ids from source to target */
+  nodes: string[];
+  /** Ids of the edges along the path, parallel edges between two steps included */
+  edges: string[];
+}
+
+export interface SimplePathOptions {
+  /** Longest path to look for, in edges */
+  maxLength?: number;
+  /** Stop searching after this many paths, the number of paths grows quickly */
+  maxPaths?: number;
+}
+
+/**
+ * Edge ids from each node to each of its successors
+ */
+function buildSuccessors(edges: Edge[]): Map<string, Map<string, string[]>> {
+  const successors = new Map<string, Map<string, string[]>>();
+  edges.forEach(edge => {
+    if (!successors.has(edge.source)) successors.set(edge.source, new Map());
+    const targets = successors.get(edge.source)!;
+    if (!targets.has(edge.target)) targets.set(edge.target, []);
+    targets.get(edge.target)!.push(getEdgeId(edge));
+  });
+  return successors;
+}
+
+function toPath(nodes: string[], successors: Map<string, Map<string, string[]>>): GraphPath {
+  const edges = nodes.slice(1).flatMap((node, i) => successors.get(nodes[i])!.get(node)!);
+  return { nodes, edges };
+}
+
+/**
+ * Find the shortest path from source to target following edge direction,
+ * or null when the target can't be reached
+ */
+export function findShortestPath(edges: Edge[], sourceId: string, targetId: string): GraphPath | null {
+  const successors = buildSuccessors(edges);
+  const previous = new Map<string, string | null>([[sourceId, null]]);
+  const queue = [sourceId];
+
+  for (let i = 0; i < queue.length && !previous.has(targetId); i++) {
+    successors.get(queue[i])?.forEach((_, next) => {
+      if (!previous.has(next)) {
+        previous.set(next, queue[i]);
+        queue.push(next);
+      }
+    });
+  }
+
+  if (!previous.has(targetId)) return null;
+
+  const nodes: string[] = [];
+  for (let node: string | null = targetId; node !== null; node = previous.get(node)!) {
+    nodes.unshift(node);
+  }
+  return toPath(nodes, successors);
+}
+
+/**
+ * Number of edges from each node to the target, for nodes that can reach it
+ */
+function getDistancesToTarget(edges: Edge[], targetId: string): Map<string, number> {
+  const predecessors = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (!predecessors.has(edge.target)) predecessors.set(edge.target, []);
+    predecessors.get(edge.target)!.push(edge.source);
+  });
+
+  const distances = new Map([[targetId, 0]]);
+  const queue = [targetId];
+  for (let i = 0; i < queue.length; i++) {
+    predecessors.get(queue[i])?.forEach(previous => {
+      if (!distances.has(previous)) {
+        distances.set(previous, distances.get(queue[i])! + 1);
+        queue.push(previous);
+      }
+    });
+  }
+  return distances;
+}
+
+/**
+ * Find paths from source to target that visit no node twice, up to a length
+ * limit, shortest first. Paths are searched one length at a time, and only
+ * through nodes that can still reach the target within the remaining length,
+ * so the first `maxPaths` found are the shortest ones and an unreachable
+ * target costs a single breadth-first search.
+ */
+export function findSimplePaths(
+  edges: Edge[],
+  sourceId: string,
+  targetId: string,
+  options: SimplePathOptions = {}
+): GraphPath[] {
+  const { maxLength = 6, maxPaths = 50 } = options;
+  const distances = getDistancesToTarget(edges, targetId);
+  const shortest = distances.get(sourceId);
+  if (sourceId === targetId || shortest === undefined) return [];
+
+  const successors = buildSuccessors(edges);
+  const paths: string[][] = [];
+  const current = [sourceId];
+  const visited = new Set([sourceId]);
+
+  // Collect the paths of exactly `length` edges
+  const search = (node: string, length: number) => {
+    if (node === targetId) {
+      if (current.length - 1 === length) paths.push([...current]);
+      return;
+    }
+
+    for (const next of successors.get(node)?.keys() ?? []) {
+      if (paths.length >= maxPaths) return;
+      const remaining = distances.get(next);
+      if (visited.has(next) || remaining === undefined || current.length + remaining > length) continue;
+      visited.add(next);
+      current.push(next);
+      search(next, length);
+      current.pop();
+      visited.delete(next);
+    }
+  };
+
+  for (let length = shortest; length <= maxLength && paths.length < maxPaths; length++) {
+    search(sourceId, length);
+  }
+
+  return paths.map(nodes => toPath(nodes, successors));
+}
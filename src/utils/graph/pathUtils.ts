@@ -0,0 +1,42 @@
+import { Node } from '../../types/graph';
+
+/**
+ * Normalise a path to forward slashes without leading './' or '/'
+ */
+function normalisePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Get the source file path of a node, if the analyzer provided one
+ */
+export function getNodeFilePath(node: Node): string {
+  const path = node.filepath || node.metadata?.filePath || '';
+  return typeof path === 'string' ? normalisePath(path) : '';
+}
+
+/**
+ * Get the directory (module) a node belongs to, as slash separated segments.
+ *
+ * Uses the directory of the file path, then falls back to the Java package,
+ * the Django app and finally `metadata.path` for nodes that are directories
+ * themselves. Returns an empty string for nodes at the root or without any
+ * location information.
+ */
+export function getNodeDirectory(node: Node, depth: number = Infinity): string {
+  let directory = '';
+
+  const filePath = getNodeFilePath(node);
+  if (filePath) {
+    directory = filePath.includes('/') ? filePath.substring(0, filePath.lastIndexOf('/')) : '';
+  } else if (typeof node.metadata?.packageName === 'string') {
+    directory = node.metadata.packageName.replace(/\./g, '/');
+  } else if (typeof node.metadata?.app === 'string') {
+    directory = node.metadata.app;
+  } else if (typeof node.metadata?.path === 'string') {
+    directory = normalisePath(node.metadata.path);
+  }
+
+  if (!directory || !Number.isFinite(depth)) return directory;
+  return directory.split('/').slice(0, Math.max(depth, 1)).join('/');
+}
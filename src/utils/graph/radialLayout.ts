@@ -0,0 +1,127 @@
+import { Node, Edge } from '../../types/graph';
+import { DEFAULT_NODE_SIZE, BaseLayoutOptions } from '../graphLayout';
+
+/**
+ * Options for the radial (ego) layout
+ */
+export interface RadialLayoutOptions extends BaseLayoutOptions {
+  /** Node placed at the center, defaults to the node with the most edges */
+  focusNodeId?: string;
+  /** Distance between consecutive rings */
+  ringSpacing?: number;
+  /** Minimum space between neighbouring nodes on a ring */
+  ringNodeSpacing?: number;
+}
+
+const DEFAULT_RADIAL_OPTIONS: Required<Omit<RadialLayoutOptions, keyof BaseLayoutOptions | 'focusNodeId'>> = {
+  ringSpacing: 260,
+  ringNodeSpacing: 30
+};
+
+type Side = 'outgoing' | 'incoming' | 'unreachable';
+
+/**
+ * Create a radial layout centred on a focus node.
+ *
+ * Nodes are placed on rings by their BFS distance from the focus node (ignoring
+ * edge direction). Nodes first reached through an outgoing edge of the focus node
+ * (what it depends on) go on the right half-plane, nodes reached through an
+ * incoming edge (its dependents) on the left. Unreachable nodes form an outer ring.
+ */
+export function createRadialLayout(
+  nodes: Node[],
+  center: { x: number, y: number },
+  _availableSpace: { width: number, height: number },
+  edges: Edge[] = [],
+  options: RadialLayoutOptions = {},
+  nodeSize: { width: number; height: number } = DEFAULT_NODE_SIZE
+): Record<string, { x: number; y: number }> {
+  const settings = { ...DEFAULT_RADIAL_OPTIONS, ...options };
+  if (nodes.length === 0) return {};
+
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (edge.source === edge.target || !nodeIds.has(edge.source) || !nodeIds.has(edge.target)) return;
+    if (!outgoing.has(edge.source)) outgoing.set(edge.source, []);
+    outgoing.get(edge.source)!.push(edge.target);
+    if (!incoming.has(edge.target)) incoming.set(edge.target, []);
+    incoming.get(edge.target)!.push(edge.source);
+  });
+
+  const degree = (id: string) => (outgoing.get(id)?.length || 0) + (incoming.get(id)?.length || 0);
+  const focusId = settings.focusNodeId && nodeIds.has(settings.focusNodeId)
+    ? settings.focusNodeId
+    : nodes.reduce((best, node) => degree(node.id) > degree(best.id) ? node : best, nodes[0]).id;
+
+  // BFS from the focus node, remembering which side each node was reached from
+  const distance = new Map<string, number>([[focusId, 0]]);
+  const side = new Map<string, Side>();
+  const parent = new Map<string, string>();
+  const queue = [focusId];
+
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    const visit = (next: string, direction: Side) => {
+      if (distance.has(next)) return;
+      distance.set(next, distance.get(current)! + 1);
+      side.set(next, current === focusId ? direction : side.get(current)!);
+      parent.set(next, current);
+      queue.push(next);
+    };
+    (outgoing.get(current) || []).forEach(next => visit(next, 'outgoing'));
+    (incoming.get(current) || []).forEach(next => visit(next, 'incoming'));
+  }
+
+  const maxDistance = Math.max(0, ...Array.from(distance.values()));
+  nodes.forEach(node => {
+    if (!distance.has(node.id)) {
+      distance.set(node.id, maxDistance + 1);
+      side.set(node.id, 'unreachable');
+    }
+  });
+
+  const positions: Record<string, { x: number; y: number }> = {
+    [focusId]: { x: center.x, y: center.y }
+  };
+  const angleOf = new Map<string, number>([[focusId, 0]]);
+  const slot = nodeSize.width + settings.ringNodeSpacing;
+  let previousRadius = 0;
+
+  for (let ring = 1; ring <= maxDistance + 1; ring++) {
+    const ringNodes = nodes.filter(node => distance.get(node.id) === ring);
+    if (ringNodes.length === 0) continue;
+
+    // Each half-plane is an arc of PI radians, the outer ring a full circle
+    const groups: Array<{ members: Node[]; start: number; span: number }> = ring > maxDistance
+      ? [{ members: ringNodes, start: 0, span: 2 * Math.PI }]
+      : [
+          { members: ringNodes.filter(node => side.get(node.id) === 'outgoing'), start: -Math.PI / 2, span: Math.PI },
+          { members: ringNodes.filter(node => side.get(node.id) === 'incoming'), start: Math.PI / 2, span: Math.PI }
+        ];
+
+    // Make the ring large enough that its most crowded arc doesn't overlap,
+    const crowding = Math.max(...groups.map(group => group.members.length * slot / group.span));
+    // and rings stay at least a node apart when nodes are drawn large
+    const radius = Math.max(previousRadius + Math.max(settings.ringSpacing, slot), crowding);
+    previousRadius = radius;
+
+    groups.forEach(({ members, start, span }) => {
+      // Keep children next to their parent to limit crossings
+      const sorted = [...members].sort((a, b) =>
+        (angleOf.get(parent.get(a.id) || '') ?? 0) - (angleOf.get(parent.get(b.id) || '') ?? 0));
+
+      sorted.forEach((node, i) => {
+        const angle = start + span * (i + 0.5) / sorted.length;
+        angleOf.set(node.id, angle);
+        positions[node.id] = {
+          x: center.x + radius * Math.cos(angle),
+          y: center.y + radius * Math.sin(angle)
+        };
+      });
+    });
+  }
+
+  return positions;
+}
@@ -0,0 +1,38 @@
+import { Node } from '../../types/graph';
+
+/**
+ * Hash a string into a 32-bit unsigned integer (FNV-1a)
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic pseudo-random generator (mulberry32) returning
+ * numbers in [0, 1), a drop-in replacement for Math.random
+ */
+export function createSeededRandom(seed: number | string): () => number {
+  let state = typeof seed === 'string' ? hashString(seed) : seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Resolve the seed for a layout. Without an explicit seed it is derived from
+ * the node ids, so the same data always produces the same layout.
+ */
+export function getLayoutSeed(nodes: Node[], seed?: number | string): number | string {
+  if (seed !== undefined) return seed;
+  return hashString(nodes.map(node => node.id).sort().join('\u0000'));
+}
@@ -0,0 +1,81 @@
+import { Edge } from '../../types/graph';
+import { getEdgeId } from './edgeUtils';
+
+/**
+ * Which way edges are followed: from target to source, or source to target
+ */
+export type TraversalDirection = 'incoming' | 'outgoing';
+
+export interface TraversalOptions {
+  /** Number of hops to follow, unlimited by default */
+  maxDepth?: number;
+  /** Only follow edges of these types. Untyped edges are skipped when set */
+  edgeTypes?: string[];
+}
+
+export interface TraversalResult {
+  /** Hops from the start node for every reached node, the start node is 0 */
+  distances: Map<string, number>;
+  /** Ids of the edges that were followed */
+  edges: Set<string>;
+  /** Distance of the furthest reached node */
+  maxDistance: number;
+}
+
+/**
+ * Settings of a transitive dependency or dependent exploration from a node
+ */
+export interface DependencyExploration {
+  nodeId: string;
+  direction: 'dependencies' | 'dependents';
+  depth: number;
+  /** Edge types to follow, or null for all */
+  edgeTypes: string[] | null;
+}
+
+/**
+ * Breadth-first walk from a node along edges in one direction.
+ * Edges between reached nodes are included as long as they start within
+ * the depth limit, so cycles and diamonds in the closure stay visible.
+ */
+export function traverseEdges(
+  edges: Edge[],
+  startId: string,
+  direction: TraversalDirection,
+  options: TraversalOptions = {}
+): TraversalResult {
+  const { maxDepth = Infinity, edgeTypes } = options;
+  const allowedTypes = edgeTypes ? new Set(edgeTypes) : null;
+
+  // Adjacency in the walking direction
+  const adjacency = new Map<string, Edge[]>();
+  edges.forEach(edge => {
+    if (allowedTypes && !(edge.type && allowedTypes.has(edge.type))) return;
+    const from = direction === 'outgoing' ? edge.source : edge.target;
+    if (!adjacency.has(from)) adjacency.set(from, []);
+    adjacency.get(from)!.push(edge);
+  });
+
+  const distances = new Map<string, number>([[startId, 0]]);
+  const followed = new Set<string>();
+  const queue = [startId];
+  let maxDistance = 0;
+
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    const distance = distances.get(current)!;
+    if (distance >= maxDepth) continue;
+
+    (adjacency.get(current) || []).forEach(edge => {
+      const next = direction === 'outgoing' ? edge.target : edge.source;
+      followed.add(getEdgeId(edge));
+      if (!distances.has(next)) {
+        distances.set(next, distance + 1);
+        maxDistance = Math.max(maxDistance, distance + 1);
+        queue.push(next);
+      }
+    });
+  }
+
+  return { distances, edges: followed, maxDistance };
+}
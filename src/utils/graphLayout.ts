@@ -1,4 +1,6 @@
-import { Node } from '../types/graph';
+import { Node, Edge } from '../types/graph';
+import { createSeededRandom, getLayoutSeed } from './graph/seededRandom';
+import { getEdgeWeight } from './graph/edgeUtils';
 
 /**
  * Get scaling factor based on the number of nodes
@@ -119,29 +121,314 @@ export function createCircularLayout(
 }
 
 /**
- * Create a force-directed layout for nodes
+ * Options understood by every layout
+ */
+export interface BaseLayoutOptions {
+  /** Seed for any randomness in the layout, defaults to a hash of the node ids */
+  seed?: number | string;
+  /** Run an overlap removal pass over the computed positions */
+  removeOverlaps?: boolean;
+  /** Minimum space kept between node boxes by the overlap removal pass */
+  overlapGap?: number;
+}
+
+/**
+ * Tuning parameters for the force-directed simulation
+ */
+export interface ForceLayoutOptions extends BaseLayoutOptions {
+  /** Number of simulation ticks to run before returning positions */
+  iterations?: number;
+  /** Rest length of edge springs, in graph units */
+  linkDistance?: number;
+  /** Multiplier for edge spring stiffness (0-1) */
+  linkStrength?: number;
+  /** Strength of node-node repulsion; negative values repel */
+  chargeStrength?: number;
+  /** Pull towards the layout center, keeps disconnected parts together */
+  centerStrength?: number;
+  /** Extra space kept between node boxes by the collision force */
+  collisionPadding?: number;
+  /** How much of each overlap the collision force resolves per tick (0-1) */
+  collisionStrength?: number;
+  /** Friction applied to velocities each tick (0-1) */
+  velocityDecay?: number;
+}
+
+/**
+ * Default dimensions of a rendered node box, used to keep layouts from overlapping
+ */
+export const NODE_WIDTH = 180;
+export const NODE_HEIGHT = 90;
+export const DEFAULT_NODE_SIZE = { width: NODE_WIDTH, height: NODE_HEIGHT };
+
+const DEFAULT_FORCE_OPTIONS: Required<Omit<ForceLayoutOptions, keyof BaseLayoutOptions>> = {
+  iterations: 300,
+  linkDistance: 220,
+  linkStrength: 1,
+  chargeStrength: -1600,
+  centerStrength: 0.04,
+  collisionPadding: 20,
+  collisionStrength: 0.7,
+  velocityDecay: 0.4
+};
+
+interface SimulationNode {
+  id: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+/**
+ * Create a force-directed layout for nodes.
+ *
+ * Runs a fixed number of ticks of a velocity Verlet simulation with edge springs,
+ * many-body repulsion, centering and rectangular collision so connected nodes
+ * cluster together while node boxes stay apart.
  */
 export function createForceLayout(
   nodes: Node[], 
   center: { x: number, y: number }, 
-  availableSpace: { width: number, height: number }
+  availableSpace: { width: number, height: number },
+  edges: Edge[] = [],
+  options: ForceLayoutOptions = {},
+  onProgress?: (progress: number) => void,
+  nodeSize: { width: number; height: number } = DEFAULT_NODE_SIZE
 ): Record<string, { x: number; y: number }> {
+  const settings = { ...DEFAULT_FORCE_OPTIONS, ...options };
   const nodeCount = nodes.length;
-  const scaleFactor = getLayoutScalingFactor(nodeCount);
-  
-  return nodes.reduce((acc, node, index) => {
-    const angle = (index / nodeCount) * 2 * Math.PI;
-    const radius = Math.min(availableSpace.width, availableSpace.height) / 5 * scaleFactor;
-    const jitter = nodeCount <= 5 ? 0 : Math.random() * 50;
+  if (nodeCount === 0) return {};
+
+  const random = createSeededRandom(getLayoutSeed(nodes, options.seed));
+
+  // Seed positions on a phyllotaxis spiral so the simulation starts untangled,
+  // rotated by the seed so different seeds give different layouts
+  const initialRadius = Math.min(availableSpace.width, availableSpace.height) / 10;
+  const spacing = initialRadius / Math.sqrt(Math.max(nodeCount, 1));
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  const rotation = random() * 2 * Math.PI;
+  const simNodes: SimulationNode[] = nodes.map((node, index) => {
+    const r = spacing * Math.sqrt(index + 0.5) * 2;
+    const angle = rotation + index * goldenAngle;
+    return {
+      id: node.id,
+      x: center.x + r * Math.cos(angle),
+      y: center.y + r * Math.sin(angle),
+      vx: 0,
+      vy: 0
+    };
+  });
+
+  const indexById = new Map(simNodes.map((node, index) => [node.id, index]));
+
+  // Only keep edges between known, distinct nodes
+  const links = edges
+    .map(edge => ({ source: indexById.get(edge.source), target: indexById.get(edge.target), weight: getEdgeWeight(edge) }))
+    .filter((link): link is { source: number; target: number; weight: number } =>
+      link.source !== undefined && link.target !== undefined && link.source !== link.target);
+
+  // Heavier edges pull harder, relative to the average weight so unweighted graphs are unaffected
+  const meanWeight = links.reduce((sum, link) => sum + link.weight, 0) / (links.length || 1);
+
+  // Springs attached to highly connected nodes are weakened so hubs don't collapse
+  const degree = new Array<number>(nodeCount).fill(0);
+  links.forEach(link => {
+    degree[link.source]++;
+    degree[link.target]++;
+  });
+  const linkBias = links.map(link => degree[link.source] / (degree[link.source] + degree[link.target]));
+  const linkStrengths = links.map(link => {
+    const strength = settings.linkStrength / Math.min(degree[link.source], degree[link.target]);
+    // Springs stronger than 1 overshoot, so weights can't push them past that
+    return Math.min(strength * Math.min(Math.max(link.weight / meanWeight, 0.2), 3), Math.max(strength, 1));
+  });
+
+  const collisionWidth = nodeSize.width + settings.collisionPadding;
+  const collisionHeight = nodeSize.height + settings.collisionPadding;
+  const minDistanceSquared = (nodeSize.height / 2) * (nodeSize.height / 2);
+
+  const alphaMin = 0.001;
+  const alphaDecay = 1 - Math.pow(alphaMin, 1 / Math.max(settings.iterations, 1));
+  let alpha = 1;
+
+  const jiggle = () => (random() - 0.5) * 1e-6;
+
+  for (let tick = 0; tick < settings.iterations; tick++) {
+    alpha += (0 - alpha) * alphaDecay;
+
+    // Edge springs
+    links.forEach((link, i) => {
+      const source = simNodes[link.source];
+      const target = simNodes[link.target];
+      let dx = target.x + target.vx - source.x - source.vx || jiggle();
+      let dy = target.y + target.vy - source.y - source.vy || jiggle();
+      let distance = Math.sqrt(dx * dx + dy * dy);
+      distance = (distance - settings.linkDistance) / distance * alpha * linkStrengths[i];
+      dx *= distance;
+      dy *= distance;
+      target.vx -= dx * linkBias[i];
+      target.vy -= dy * linkBias[i];
+      source.vx += dx * (1 - linkBias[i]);
+      source.vy += dy * (1 - linkBias[i]);
+    });
 
+    // Many-body repulsion
+    for (let i = 0; i < nodeCount; i++) {
+      const a = simNodes[i];
+      for (let j = i + 1; j < nodeCount; j++) {
+        const b = simNodes[j];
+        const dx = b.x - a.x || jiggle();
+        const dy = b.y - a.y || jiggle();
+        const distanceSquared = Math.max(dx * dx + dy * dy, minDistanceSquared);
+        const force = settings.chargeStrength * alpha / distanceSquared;
+        a.vx += dx * force;
+        a.vy += dy * force;
+        b.vx -= dx * force;
+        b.vy -= dy * force;
+      }
+    }
+
+    // Gravity towards the center
+    simNodes.forEach(node => {
+      node.vx += (center.x - node.x) * settings.centerStrength * alpha;
+      node.vy += (center.y - node.y) * settings.centerStrength * alpha;
+    });
+
+    // Rectangular collision based on the node box
+    for (let i = 0; i < nodeCount; i++) {
+      const a = simNodes[i];
+      for (let j = i + 1; j < nodeCount; j++) {
+        const b = simNodes[j];
+        const dx = (b.x + b.vx) - (a.x + a.vx) || jiggle();
+        const dy = (b.y + b.vy) - (a.y + a.vy) || jiggle();
+        const overlapX = collisionWidth - Math.abs(dx);
+        const overlapY = collisionHeight - Math.abs(dy);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+
+        // Separate along the axis that needs the smallest push
+        if (overlapX / collisionWidth < overlapY / collisionHeight) {
+          const push = Math.sign(dx) * overlapX * settings.collisionStrength / 2;
+          a.vx -= push;
+          b.vx += push;
+        } else {
+          const push = Math.sign(dy) * overlapY * settings.collisionStrength / 2;
+          a.vy -= push;
+          b.vy += push;
+        }
+      }
+    }
+
+    simNodes.forEach(node => {
+      node.vx *= 1 - settings.velocityDecay;
+      node.vy *= 1 - settings.velocityDecay;
+      node.x += node.vx;
+      node.y += node.vy;
+    });
+
+    if (onProgress && tick % 10 === 0) {
+      onProgress(tick / settings.iterations);
+    }
+  }
+
+  // Re-center the result, the forces above only keep it roughly in place
+  const meanX = simNodes.reduce((sum, node) => sum + node.x, 0) / nodeCount;
+  const meanY = simNodes.reduce((sum, node) => sum + node.y, 0) / nodeCount;
+
+  return simNodes.reduce((acc, node) => {
     acc[node.id] = {
-      x: center.x + (radius + jitter) * Math.cos(angle),
-      y: center.y + (radius + jitter) * Math.sin(angle),
+      x: node.x - meanX + center.x,
+      y: node.y - meanY + center.y
     };
     return acc;
   }, {} as Record<string, { x: number; y: number }>);
 }
 
+/**
+ * Place nodes without a position next to their already positioned neighbours.
+ *
+ * Existing positions are treated as pinned and returned unchanged. New nodes are
+ * placed in rounds, each one at the first free slot on rings around the mean of
+ * its placed neighbours; nodes with no placed neighbours start beside the
+ * current drawing.
+ */
+export function placeNodesIncrementally(
+  nodes: Node[],
+  edges: Edge[],
+  previousPositions: Record<string, { x: number; y: number }>,
+  center: { x: number, y: number },
+  gap: number = 40,
+  nodeSize: { width: number; height: number } = DEFAULT_NODE_SIZE
+): Record<string, { x: number; y: number }> {
+  const positions: Record<string, { x: number; y: number }> = {};
+  nodes.forEach(node => {
+    if (previousPositions[node.id]) {
+      positions[node.id] = previousPositions[node.id];
+    }
+  });
+
+  let unplaced = nodes.filter(node => !positions[node.id]);
+  if (unplaced.length === 0) return positions;
+
+  const neighbours = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (edge.source === edge.target) return;
+    if (!neighbours.has(edge.source)) neighbours.set(edge.source, []);
+    neighbours.get(edge.source)!.push(edge.target);
+    if (!neighbours.has(edge.target)) neighbours.set(edge.target, []);
+    neighbours.get(edge.target)!.push(edge.source);
+  });
+
+  const slotWidth = nodeSize.width + gap;
+  const slotHeight = nodeSize.height + gap;
+  const isFree = (x: number, y: number) => Object.values(positions).every(pos =>
+    Math.abs(pos.x - x) >= slotWidth || Math.abs(pos.y - y) >= slotHeight);
+
+  // Search outwards on rings of growing radius for a slot that doesn't overlap
+  const findFreeSlot = (anchor: { x: number; y: number }) => {
+    if (isFree(anchor.x, anchor.y)) return anchor;
+    for (let ring = 1; ring < 100; ring++) {
+      const steps = ring * 8;
+      for (let step = 0; step < steps; step++) {
+        const angle = (step / steps) * 2 * Math.PI;
+        const x = anchor.x + ring * slotWidth * Math.cos(angle);
+        const y = anchor.y + ring * slotHeight * Math.sin(angle);
+        if (isFree(x, y)) return { x, y };
+      }
+    }
+    return anchor;
+  };
+
+  while (unplaced.length > 0) {
+    const anchored = unplaced.filter(node =>
+      (neighbours.get(node.id) || []).some(id => positions[id]));
+
+    if (anchored.length > 0) {
+      anchored.forEach(node => {
+        const placedNeighbours = (neighbours.get(node.id) || [])
+          .map(id => positions[id])
+          .filter(Boolean);
+        const anchor = {
+          x: placedNeighbours.reduce((sum, pos) => sum + pos.x, 0) / placedNeighbours.length,
+          y: placedNeighbours.reduce((sum, pos) => sum + pos.y, 0) / placedNeighbours.length
+        };
+        positions[node.id] = findFreeSlot(anchor);
+      });
+    } else {
+      // Nothing new is connected to the drawing, start a new group to its right
+      const placed = Object.values(positions);
+      const anchor = placed.length > 0
+        ? { x: Math.max(...placed.map(pos => pos.x)) + slotWidth, y: center.y }
+        : center;
+      positions[unplaced[0].id] = findFreeSlot(anchor);
+    }
+
+    unplaced = unplaced.filter(node => !positions[node.id]);
+  }
+
+  return positions;
+}
+
 /**
  * Get the initial zoom scale based on node count
  */
@@ -0,0 +1,186 @@
+import { Node, Edge } from '../types/graph';
+import {
+  createSpiralLayout,
+  createDonutLayout,
+  createCircularLayout,
+  createForceLayout,
+  ForceLayoutOptions,
+  NODE_WIDTH,
+  NODE_HEIGHT
+} from './graphLayout';
+import { createTreeLayout, TreeLayoutOptions } from './graph/layeredLayout';
+import { createClusterLayout, ClusterLayoutOptions } from './graph/clusterLayout';
+import { createRadialLayout, RadialLayoutOptions } from './graph/radialLayout';
+import { createSeededRandom, getLayoutSeed } from './graph/seededRandom';
+import { removeNodeOverlaps } from './graph/overlapRemoval';
+
+/**
+ * Names of the layouts that ship with the library
+ */
+export type BuiltInLayoutName = 'circular' | 'force' | 'tree' | 'spiral' | 'donut' | 'cluster' | 'radial';
+
+/**
+ * A built-in layout name or the name of a layout added with registerLayout
+ */
+export type LayoutName = BuiltInLayoutName | (string & Record<never, never>);
+
+/**
+ * Options passed through to the layout algorithm. Built-in layouts read the
+ * options of their own type, custom layouts are free to define their own keys.
+ */
+export type LayoutOptions = ForceLayoutOptions
+  & TreeLayoutOptions
+  & ClusterLayoutOptions
+  & RadialLayoutOptions
+  & { [key: string]: unknown };
+
+/**
+ * Input handed to every layout algorithm
+ */
+export interface LayoutInput {
+  nodes: Node[];
+  edges: Edge[];
+  center: { x: number; y: number };
+  availableSpace: { width: number; height: number };
+  options: LayoutOptions;
+  /** Rendered node size, layouts keep boxes of this size apart */
+  nodeSize: { width: number; height: number };
+  /** Seeded replacement for Math.random, use it so layouts are reproducible */
+  random: () => number;
+  /** Report progress between 0 and 1, useful for long running layouts */
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * A layout algorithm maps nodes to positions in graph coordinates
+ */
+export type LayoutAlgorithm = (input: LayoutInput) => Record<string, { x: number; y: number }>;
+
+/**
+ * Everything a layout needs. Requests naming a built-in layout can be posted to a worker.
+ */
+export interface LayoutRequest {
+  layout: LayoutName | LayoutAlgorithm;
+  nodes: Node[];
+  edges: Edge[];
+  center: { x: number; y: number };
+  availableSpace: { width: number; height: number };
+  options?: LayoutOptions;
+  /** Rendered node size, defaults to NODE_WIDTH x NODE_HEIGHT */
+  nodeSize?: { width: number; height: number };
+  /** Size factors of nodes drawn larger or smaller than `nodeSize`, used when removing overlaps */
+  nodeScales?: Record<string, number> | null;
+}
+
+/**
+ * Messages sent to the layout worker
+ */
+export type LayoutWorkerRequest = { type: 'layout'; requestId: number } & LayoutRequest & { layout: LayoutName };
+
+/**
+ * Messages sent back by the layout worker
+ */
+export type LayoutWorkerResponse =
+  | { type: 'progress'; requestId: number; progress: number }
+  | { type: 'result'; requestId: number; positions: Record<string, { x: number; y: number }> }
+  | { type: 'error'; requestId: number; message: string };
+
+const layoutRegistry = new Map<string, LayoutAlgorithm>();
+
+// Layouts that are still the library's own implementation and so also exist in the worker
+const workerLayouts = new Set<string>();
+
+/**
+ * Register a layout algorithm under a name usable as the Graph `autoLayout` prop.
+ * Registering an existing name replaces it.
+ */
+export function registerLayout(name: string, layout: LayoutAlgorithm): void {
+  layoutRegistry.set(name, layout);
+  workerLayouts.delete(name);
+}
+
+/**
+ * Look up a registered layout algorithm
+ */
+export function getLayout(name: string): LayoutAlgorithm | undefined {
+  return layoutRegistry.get(name);
+}
+
+/**
+ * Names of all registered layouts, built-in ones included
+ */
+export function getRegisteredLayouts(): string[] {
+  return Array.from(layoutRegistry.keys());
+}
+
+/**
+ * Whether a request can be handed to the layout worker. Custom layouts only
+ * exist on the main thread, so they always run there.
+ */
+export function canRunInWorker(layout: LayoutName | LayoutAlgorithm): layout is LayoutName {
+  return typeof layout === 'string' && workerLayouts.has(layout);
+}
+
+function registerBuiltInLayout(name: BuiltInLayoutName, layout: LayoutAlgorithm) {
+  layoutRegistry.set(name, layout);
+  workerLayouts.add(name);
+}
+
+registerBuiltInLayout('circular', ({ nodes, center, availableSpace }) =>
+  // Large circles get unreadable, so switch to the donut layout instead
+  nodes.length > 50
+    ? createDonutLayout(nodes, center, availableSpace)
+    : createCircularLayout(nodes, center, availableSpace));
+
+registerBuiltInLayout('force', ({ nodes, edges, center, availableSpace, options, nodeSize, onProgress }) =>
+  createForceLayout(nodes, center, availableSpace, edges, options, onProgress, nodeSize));
+
+registerBuiltInLayout('tree', ({ nodes, edges, center, availableSpace, options, nodeSize, onProgress }) =>
+  createTreeLayout(nodes, center, availableSpace, edges, options, onProgress, nodeSize));
+
+registerBuiltInLayout('cluster', ({ nodes, edges, center, availableSpace, options, nodeSize }) =>
+  createClusterLayout(nodes, center, availableSpace, edges, options, nodeSize));
+
+registerBuiltInLayout('radial', ({ nodes, edges, center, availableSpace, options, nodeSize }) =>
+  createRadialLayout(nodes, center, availableSpace, edges, options, nodeSize));
+
+registerBuiltInLayout('spiral', ({ nodes, center, availableSpace }) =>
+  createSpiralLayout(nodes, center, availableSpace));
+
+registerBuiltInLayout('donut', ({ nodes, center, availableSpace }) =>
+  createDonutLayout(nodes, center, availableSpace));
+
+/**
+ * Run the requested layout algorithm and return node positions
+ */
+export function computeLayout(
+  request: LayoutRequest,
+  onProgress?: (progress: number) => void
+): Record<string, { x: number; y: number }> {
+  const {
+    nodes,
+    edges,
+    center,
+    availableSpace,
+    options = {},
+    nodeSize = { width: NODE_WIDTH, height: NODE_HEIGHT },
+    nodeScales
+  } = request;
+
+  let layout = typeof request.layout === 'function'
+    ? request.layout
+    : layoutRegistry.get(request.layout);
+
+  if (!layout) {
+    console.warn(`Unknown layout "${request.layout}", falling back to force layout`);
+    layout = layoutRegistry.get('force')!;
+  }
+
+  const random = createSeededRandom(getLayoutSeed(nodes, options.seed));
+
+  const positions = layout({ nodes, edges, center, availableSpace, options, nodeSize, random, onProgress });
+
+  return options.removeOverlaps
+    ? removeNodeOverlaps(positions, nodeSize, options.overlapGap, undefined, nodeScales)
+    : positions;
+}
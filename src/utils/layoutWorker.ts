@@ -0,0 +1,25 @@
+// src/utils/layoutWorker.ts
+// Runs layout calculations off the main thread, see useLayoutWorker
+import { computeLayout, LayoutWorkerRequest, LayoutWorkerResponse } from './layoutEngine';
+
+const respond = (message: LayoutWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.addEventListener('message', (event: MessageEvent<LayoutWorkerRequest>) => {
+  const { type, requestId, ...request } = event.data;
+  if (type !== 'layout') return;
+
+  try {
+    const positions = computeLayout(request, (progress) => {
+      respond({ type: 'progress', requestId, progress });
+    });
+    respond({ type: 'result', requestId, positions });
+  } catch (e) {
+    respond({
+      type: 'error',
+      requestId,
+      message: e instanceof Error ? e.message : String(e)
+    });
+  }
+});
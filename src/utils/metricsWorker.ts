@@ -0,0 +1,22 @@
+// src/utils/metricsWorker.ts
+// Runs centrality calculations off the main thread, see useGraphMetrics
+import { computeGraphMetrics, MetricsWorkerRequest, MetricsWorkerResponse } from './graph/metrics';
+
+const respond = (message: MetricsWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.addEventListener('message', (event: MessageEvent<MetricsWorkerRequest>) => {
+  const { type, requestId, nodes, edges } = event.data;
+  if (type !== 'metrics') return;
+
+  try {
+    respond({ type: 'result', requestId, metrics: computeGraphMetrics({ nodes, edges }) });
+  } catch (e) {
+    respond({
+      type: 'error',
+      requestId,
+      message: e instanceof Error ? e.message : String(e)
+    });
+  }
+});